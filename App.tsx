@@ -10,16 +10,19 @@ import { StatusBar } from 'expo-status-bar';
 import * as SplashScreen from 'expo-splash-screen';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
-import { StyleSheet, View } from 'react-native';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 
 // Providers
 import { SettingsProvider, useSettings } from './src/stores/settings';
-import { StorageHelpers } from './src/stores/storage';
+import { StorageHelpers, storageReady, loadStorage } from './src/stores/storage';
+import { useNotificationActions } from './src/services/notificationActions';
+import { useAppLock } from './src/services/appLock';
 
 // Screens
 import { EnhancedConnectScreen } from './src/screens/EnhancedConnectScreen';
 import { EnhancedChatScreen } from './src/screens/EnhancedChatScreen';
 import { OnboardingScreen } from './src/screens/OnboardingScreen';
+import { BiometricLockScreen } from './src/screens/BiometricLockScreen';
 
 // Keep splash screen visible while we check onboarding status
 SplashScreen.preventAutoHideAsync().catch(() => {
@@ -28,18 +31,21 @@ SplashScreen.preventAutoHideAsync().catch(() => {
 
 // App content with access to settings
 function AppContent() {
-  const { isConnected, clearConnection, isDark, gatewayUrl, theme } = useSettings();
+  const { isConnected, clearConnection, isDark, gatewayUrl, theme, biometricLockEnabled, autoLockTimeout } = useSettings();
   const [showChat, setShowChat] = useState(false);
   const [showOnboarding, setShowOnboarding] = useState<boolean | null>(null);
   const [appIsReady, setAppIsReady] = useState(false);
   
+  // Notification actions (replies queue to the outbox even before the chat screen mounts)
+  useNotificationActions();
+  
+  // App lock (cold start and after the auto-lock timeout in the background)
+  const { isLocked, unlock, isObscured } = useAppLock(biometricLockEnabled, autoLockTimeout);
+  
   // Check onboarding status on mount
   useEffect(() => {
     async function prepare() {
       try {
-        // Small delay to ensure storage is loaded
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
         // Check if onboarding is complete
         const onboardingComplete = StorageHelpers.getOnboardingComplete();
         setShowOnboarding(!onboardingComplete);
@@ -97,12 +103,30 @@ function AppContent() {
   
   return (
     <>
-      {showOnboarding ? (
-        <OnboardingScreen onComplete={handleOnboardingComplete} />
-      ) : showChat && gatewayUrl ? (
-        <EnhancedChatScreen onDisconnect={handleDisconnect} />
-      ) : (
-        <EnhancedConnectScreen onConnect={handleConnect} />
+      {/* Screens stay mounted while locked so the connection and outbox keep running */}
+      <View
+        style={styles.container}
+        accessibilityElementsHidden={isLocked}
+        importantForAccessibility={isLocked ? 'no-hide-descendants' : 'auto'}
+      >
+        {showOnboarding ? (
+          <OnboardingScreen onComplete={handleOnboardingComplete} />
+        ) : showChat && gatewayUrl ? (
+          <EnhancedChatScreen onDisconnect={handleDisconnect} />
+        ) : (
+          <EnhancedConnectScreen onConnect={handleConnect} />
+        )}
+      </View>
+      {isLocked && (
+        <View style={styles.overlay}>
+          <BiometricLockScreen onUnlock={unlock} />
+        </View>
+      )}
+      {/* Blank cover for the app switcher snapshot */}
+      {isObscured && !isLocked && (
+        <View style={[styles.overlay, styles.privacyCover, { backgroundColor: theme.background }]}>
+          <Text style={styles.privacyIcon}>🦎</Text>
+        </View>
       )}
       <StatusBar style={isDark ? 'light' : 'dark'} />
     </>
@@ -111,6 +135,42 @@ function AppContent() {
 
 // Main App component
 export default function App() {
+  // Settings are read synchronously, so wait until storage is loaded and decrypted
+  const [storageState, setStorageState] = useState<'loading' | 'ready' | 'error'>('loading');
+  
+  const waitForStorage = useCallback((load: Promise<void>) => {
+    setStorageState('loading');
+    load
+      .then(() => setStorageState('ready'))
+      .catch((error) => {
+        // Running without the data would look like a logout, so stop here instead
+        console.error('[App] Failed to load storage:', error);
+        setStorageState('error');
+        SplashScreen.hideAsync().catch(() => {});
+      });
+  }, []);
+  
+  useEffect(() => {
+    waitForStorage(storageReady);
+  }, [waitForStorage]);
+  
+  // Splash screen stays visible meanwhile
+  if (storageState === 'loading') return null;
+  
+  if (storageState === 'error') {
+    return (
+      <View style={[styles.container, styles.storageError]}>
+        <Text style={styles.storageErrorTitle}>Couldn't read your saved data</Text>
+        <Text style={styles.storageErrorText}>
+          The device keystore didn't respond. Nothing was changed or deleted.
+        </Text>
+        <TouchableOpacity style={styles.storageErrorButton} onPress={() => waitForStorage(loadStorage())}>
+          <Text style={styles.storageErrorButtonText}>Try again</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+  
   return (
     <GestureHandlerRootView style={styles.container}>
       <SafeAreaProvider>
@@ -126,4 +186,44 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  privacyCover: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  privacyIcon: {
+    fontSize: 72,
+  },
+  storageError: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: '#0a0a0a',
+  },
+  storageErrorTitle: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  storageErrorText: {
+    color: '#a3a3a3',
+    fontSize: 15,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  storageErrorButton: {
+    backgroundColor: '#22c55e',
+    paddingHorizontal: 32,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  storageErrorButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
@@ -2,13 +2,15 @@
  * Attachment Picker - Redesigned
  * 
  * Premium attachment picker with:
- * - Animated button press
- * - Thumbnail preview with remove button
+ * - Camera, photo library (multi-select) and any file from the file system
+ * - Per-file size validation
+ * - Images resized, re-encoded (JPEG/WebP) and stripped of EXIF/GPS metadata
+ * - Attachment tray with thumbnails / file cards, reorder and remove
  * - Smooth animations
  */
 
-import React, { useCallback } from 'react';
-import { TouchableOpacity, StyleSheet, Alert, Image, View, Text, Pressable } from 'react-native';
+import React, { useCallback, useState } from 'react';
+import { TouchableOpacity, StyleSheet, Alert, Image, View, Text, Pressable, ScrollView, ActivityIndicator } from 'react-native';
 import Animated, {
   useAnimatedStyle,
   useSharedValue,
@@ -18,27 +20,68 @@ import Animated, {
 } from 'react-native-reanimated';
 import * as ImagePicker from 'expo-image-picker';
 import * as Haptics from 'expo-haptics';
+import { File } from 'expo-file-system';
 import { useSettings } from '../stores/settings';
 import { spacing, radius, shadows } from '../theme/colors';
-import type { PickedImage } from '../types';
+import { resolveFileType, getExtension, formatFileSize } from '../utils/mime';
+import { processImage, isProcessableImage, ImageTooLargeError } from '../utils/images';
+import type { PickedAttachment } from '../types';
 
-// Maximum file size (10MB)
-const MAX_FILE_SIZE = 10 * 1024 * 1024;
+// Maximum file size per attachment (10MB)
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
-// Image quality for compression
-const IMAGE_QUALITY = 0.7;
+// Maximum number of attachments per message
+export const MAX_ATTACHMENTS = 10;
 
 interface AttachmentPickerProps {
-  onImageSelected: (image: PickedImage) => void;
+  onAttachmentsSelected: (attachments: PickedAttachment[]) => void;
+  // Attachments already in the tray (limits how many more can be picked)
+  currentCount?: number;
   disabled?: boolean;
 }
 
 const AnimatedTouchable = Animated.createAnimatedComponent(TouchableOpacity);
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
-export function AttachmentPicker({ onImageSelected, disabled }: AttachmentPickerProps) {
-  const { theme, isDark } = useSettings();
+// Warn about files over the size limit
+function alertTooLarge(names: string[]) {
+  Alert.alert(
+    names.length === 1 ? 'File Too Large' : 'Files Too Large',
+    `${names.join(', ')} ${names.length === 1 ? 'is' : 'are'} over the ${formatFileSize(MAX_FILE_SIZE)} limit and ${names.length === 1 ? 'was' : 'were'} skipped.`,
+    [{ text: 'OK' }]
+  );
+}
+
+export function AttachmentPicker({ onAttachmentsSelected, currentCount = 0, disabled }: AttachmentPickerProps) {
+  const { theme, isDark, imageMaxDimension, imageFormat } = useSettings();
   const buttonScale = useSharedValue(1);
+  const remaining = MAX_ATTACHMENTS - currentCount;
+  const [processing, setProcessing] = useState(false);
+  const isDisabled = disabled || processing;
+  
+  // Resize and re-encode an image; null when it can't be brought under the size limit
+  const prepareImage = useCallback(async (
+    uri: string,
+    fileName: string,
+    width?: number,
+    height?: number,
+  ): Promise<PickedAttachment | null> => {
+    setProcessing(true);
+    try {
+      return await processImage(uri, fileName, {
+        maxDimension: imageMaxDimension,
+        format: imageFormat,
+        maxBytes: MAX_FILE_SIZE,
+        width,
+        height,
+      });
+    } catch (error) {
+      if (error instanceof ImageTooLargeError) return null;
+      throw error;
+    } finally {
+      setProcessing(false);
+    }
+  }, [imageMaxDimension, imageFormat]);
   
   const requestPermission = useCallback(async (type: 'camera' | 'library') => {
     if (type === 'camera') {
@@ -73,8 +116,9 @@ export function AttachmentPicker({ onImageSelected, disabled }: AttachmentPicker
       const options: ImagePicker.ImagePickerOptions = {
         mediaTypes: ['images'],
         allowsEditing: false,
-        quality: IMAGE_QUALITY,
-        base64: true,
+        // Full quality: images are re-encoded by processImage
+        quality: 1,
+        base64: false,
         exif: false,
       };
       
@@ -83,67 +127,115 @@ export function AttachmentPicker({ onImageSelected, disabled }: AttachmentPicker
       if (source === 'camera') {
         result = await ImagePicker.launchCameraAsync(options);
       } else {
-        result = await ImagePicker.launchImageLibraryAsync(options);
+        result = await ImagePicker.launchImageLibraryAsync({
+          ...options,
+          allowsMultipleSelection: true,
+          selectionLimit: remaining,
+        });
       }
       
-      if (result.canceled || !result.assets?.[0]) {
+      if (result.canceled || !result.assets?.length) {
         return;
       }
       
-      const asset = result.assets[0];
+      const picked: PickedAttachment[] = [];
+      const tooLarge: string[] = [];
       
-      // Check file size
-      const estimatedSize = asset.base64 ? (asset.base64.length * 3) / 4 : 0;
-      if (estimatedSize > MAX_FILE_SIZE) {
-        Alert.alert(
-          'Image Too Large',
-          'Please select an image smaller than 10MB.',
-          [{ text: 'OK' }]
+      for (const asset of result.assets.slice(0, remaining)) {
+        const { fileName } = resolveFileType(
+          asset.fileName ?? undefined,
+          asset.uri,
+          asset.mimeType,
+          `image-${Date.now()}-${picked.length + 1}`,
         );
-        return;
+        
+        const image = await prepareImage(asset.uri, fileName, asset.width, asset.height);
+        if (image) {
+          picked.push(image);
+        } else {
+          tooLarge.push(fileName);
+        }
       }
       
-      // Determine mime type
-      const uri = asset.uri.toLowerCase();
-      let mimeType = 'image/jpeg';
-      if (uri.endsWith('.png')) mimeType = 'image/png';
-      else if (uri.endsWith('.gif')) mimeType = 'image/gif';
-      else if (uri.endsWith('.webp')) mimeType = 'image/webp';
-      
-      const pickedImage: PickedImage = {
-        uri: asset.uri,
-        base64: asset.base64 ?? undefined,
-        mimeType,
-        width: asset.width,
-        height: asset.height,
-        fileName: asset.fileName ?? `image-${Date.now()}.jpg`,
-      };
+      if (tooLarge.length > 0) alertTooLarge(tooLarge);
+      if (picked.length === 0) return;
       
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      onImageSelected(pickedImage);
+      onAttachmentsSelected(picked);
       
     } catch (error) {
       console.error('Image picker error:', error);
       Alert.alert('Error', 'Failed to pick image. Please try again.');
     }
-  }, [requestPermission, onImageSelected]);
+  }, [requestPermission, onAttachmentsSelected, remaining, prepareImage]);
+  
+  // Any file from the file system (PDFs, logs, CSVs, ...); content is read when the message is sent
+  const pickFile = useCallback(async () => {
+    try {
+      const result = await File.pickFileAsync();
+      const files = Array.isArray(result) ? result : [result];
+      
+      const picked: PickedAttachment[] = [];
+      const tooLarge: string[] = [];
+      
+      for (const file of files.filter(Boolean).slice(0, remaining)) {
+        const pickedName = decodeURIComponent(file.uri.split(/[?#]/)[0].split('/').pop() ?? '');
+        const { mimeType, fileName } = resolveFileType(
+          pickedName,
+          file.uri,
+          file.type || undefined,
+          `file-${Date.now()}-${picked.length + 1}`,
+        );
+        
+        if (isProcessableImage(mimeType)) {
+          const image = await prepareImage(file.uri, fileName);
+          if (image) {
+            picked.push(image);
+          } else {
+            tooLarge.push(fileName);
+          }
+        } else if (file.size > MAX_FILE_SIZE) {
+          tooLarge.push(fileName);
+        } else {
+          picked.push({ uri: file.uri, mimeType, fileName, size: file.size });
+        }
+      }
+      
+      if (tooLarge.length > 0) alertTooLarge(tooLarge);
+      if (picked.length === 0) return;
+      
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onAttachmentsSelected(picked);
+    } catch (error) {
+      // Closing the picker is not an error
+      if (error instanceof Error && /cancel/i.test(error.message)) return;
+      console.error('File picker error:', error);
+      Alert.alert('Error', 'Failed to pick file. Please try again.');
+    }
+  }, [onAttachmentsSelected, remaining, prepareImage]);
   
   const handlePress = useCallback(() => {
-    if (disabled) return;
+    if (isDisabled) return;
     
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     
+    if (remaining <= 0) {
+      Alert.alert('Attachment Limit', `You can attach up to ${MAX_ATTACHMENTS} files per message.`);
+      return;
+    }
+    
     Alert.alert(
-      'Add Image',
+      'Add Attachment',
       'Choose a source',
       [
         { text: 'Camera', onPress: () => pickImage('camera') },
         { text: 'Photo Library', onPress: () => pickImage('library') },
+        { text: 'File', onPress: pickFile },
         { text: 'Cancel', style: 'cancel' },
       ],
       { cancelable: true }
     );
-  }, [disabled, pickImage]);
+  }, [isDisabled, remaining, pickImage, pickFile]);
   
   const handlePressIn = () => {
     buttonScale.value = withSpring(0.9, { damping: 15 });
@@ -165,29 +257,37 @@ export function AttachmentPicker({ onImageSelected, disabled }: AttachmentPicker
           backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)',
           borderColor: theme.inputBorder,
         },
-        disabled && styles.disabled,
+        isDisabled && styles.disabled,
         buttonAnimatedStyle,
       ]}
       onPress={handlePress}
       onPressIn={handlePressIn}
       onPressOut={handlePressOut}
-      disabled={disabled}
+      disabled={isDisabled}
       activeOpacity={1}
     >
-      <Text style={[styles.icon, { color: disabled ? theme.textMuted : theme.primary }]}>📎</Text>
+      {processing ? (
+        <ActivityIndicator size="small" color={theme.primary} />
+      ) : (
+        <Text style={[styles.icon, { color: disabled ? theme.textMuted : theme.primary }]}>📎</Text>
+      )}
     </AnimatedTouchable>
   );
 }
 
 // Preview component for selected attachment
 interface AttachmentPreviewProps {
-  image: PickedImage;
+  attachment: PickedAttachment;
   onRemove: () => void;
+  onMoveLeft?: () => void;
+  onMoveRight?: () => void;
 }
 
-export function AttachmentPreview({ image, onRemove }: AttachmentPreviewProps) {
+export function AttachmentPreview({ attachment, onRemove, onMoveLeft, onMoveRight }: AttachmentPreviewProps) {
   const { theme } = useSettings();
   const removeScale = useSharedValue(1);
+  const isImage = attachment.mimeType?.startsWith('image/') ?? false;
+  const extension = getExtension(attachment.fileName || attachment.uri);
   
   const handleRemovePressIn = () => {
     removeScale.value = withSpring(0.85, { damping: 15 });
@@ -206,17 +306,54 @@ export function AttachmentPreview({ image, onRemove }: AttachmentPreviewProps) {
     onRemove();
   };
   
+  const handleMove = (move?: () => void) => {
+    if (!move) return;
+    Haptics.selectionAsync();
+    move();
+  };
+  
   return (
     <Animated.View 
       entering={FadeIn.duration(200)}
       exiting={FadeOut.duration(150)}
-      style={[
-        styles.previewContainer, 
-        { backgroundColor: theme.surface, borderColor: theme.border },
-        shadows.sm,
-      ]}
+      style={styles.previewWrapper}
     >
-      <Image source={{ uri: image.uri }} style={styles.previewImage} resizeMode="cover" />
+      <View
+        style={[
+          styles.previewContainer, 
+          { backgroundColor: theme.surface, borderColor: theme.border },
+          shadows.sm,
+        ]}
+      >
+        {isImage ? (
+          <Image source={{ uri: attachment.uri }} style={styles.previewImage} resizeMode="cover" />
+        ) : (
+          <View style={styles.fileCard}>
+            <Text style={styles.fileIcon}>📄</Text>
+            <Text style={[styles.fileExtension, { color: theme.primary }]} numberOfLines={1}>
+              {extension ? extension.toUpperCase() : 'FILE'}
+            </Text>
+          </View>
+        )}
+      </View>
+      <Text style={[styles.previewName, { color: theme.textSecondary }]} numberOfLines={1}>
+        {attachment.fileName || 'Attachment'}
+      </Text>
+      {attachment.size ? (
+        <Text style={[styles.previewSize, { color: theme.textMuted }]}>{formatFileSize(attachment.size)}</Text>
+      ) : null}
+      
+      {(onMoveLeft || onMoveRight) && (
+        <View style={styles.moveRow}>
+          <TouchableOpacity onPress={() => handleMove(onMoveLeft)} disabled={!onMoveLeft} hitSlop={6}>
+            <Text style={[styles.moveArrow, { color: theme.primary, opacity: onMoveLeft ? 1 : 0.3 }]}>‹</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleMove(onMoveRight)} disabled={!onMoveRight} hitSlop={6}>
+            <Text style={[styles.moveArrow, { color: theme.primary, opacity: onMoveRight ? 1 : 0.3 }]}>›</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      
       <AnimatedPressable
         style={[styles.removeButton, { backgroundColor: theme.error }, removeAnimatedStyle]}
         onPress={handleRemove}
@@ -229,6 +366,44 @@ export function AttachmentPreview({ image, onRemove }: AttachmentPreviewProps) {
   );
 }
 
+// Tray of pending attachments above the composer
+interface AttachmentTrayProps {
+  attachments: PickedAttachment[];
+  onChange: (attachments: PickedAttachment[]) => void;
+}
+
+export function AttachmentTray({ attachments, onChange }: AttachmentTrayProps) {
+  const move = useCallback((from: number, to: number) => {
+    const next = [...attachments];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  }, [attachments, onChange]);
+  
+  if (attachments.length === 0) return null;
+  
+  const canReorder = attachments.length > 1;
+  
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.tray}
+      keyboardShouldPersistTaps="handled"
+    >
+      {attachments.map((attachment, index) => (
+        <AttachmentPreview
+          key={`${attachment.uri}-${index}`}
+          attachment={attachment}
+          onRemove={() => onChange(attachments.filter((_, i) => i !== index))}
+          onMoveLeft={canReorder && index > 0 ? () => move(index, index - 1) : undefined}
+          onMoveRight={canReorder && index < attachments.length - 1 ? () => move(index, index + 1) : undefined}
+        />
+      ))}
+    </ScrollView>
+  );
+}
+
 const styles = StyleSheet.create({
   button: {
     width: 40,
@@ -244,6 +419,15 @@ const styles = StyleSheet.create({
   icon: {
     fontSize: 18,
   },
+  tray: {
+    gap: spacing.md,
+    paddingTop: 6,
+    paddingRight: 6,
+  },
+  previewWrapper: {
+    width: 64,
+    position: 'relative',
+  },
   previewContainer: {
     width: 64,
     height: 64,
@@ -256,6 +440,36 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
+  fileCard: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 4,
+  },
+  fileIcon: {
+    fontSize: 22,
+  },
+  fileExtension: {
+    fontSize: 10,
+    fontWeight: '700',
+    marginTop: 2,
+  },
+  previewName: {
+    fontSize: 10,
+    marginTop: 4,
+  },
+  previewSize: {
+    fontSize: 9,
+  },
+  moveRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.sm,
+  },
+  moveArrow: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
   removeButton: {
     position: 'absolute',
     top: -6,
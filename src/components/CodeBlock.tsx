@@ -0,0 +1,176 @@
+/**
+ * Code Block
+ *
+ * Fenced code from markdown with:
+ * - Syntax highlighting that follows the light/dark theme
+ * - Header with language label, copy, soft-wrap toggle and save as file
+ */
+
+import React, { memo, useMemo, useState, useCallback, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, Platform } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import * as Haptics from 'expo-haptics';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { useSettings } from '../stores/settings';
+import { spacing, radius } from '../theme/colors';
+import { highlightCode, getLanguageLabel, getLanguageExtension, SYNTAX_COLORS } from '../utils/syntaxHighlight';
+import { getMimeType } from '../utils/mime';
+
+interface CodeBlockProps {
+  code: string;
+  language?: string;
+}
+
+const MONOSPACE = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+// Share the code as a file named after its language
+async function saveCodeAsFile(code: string, language?: string): Promise<void> {
+  const isAvailable = await Sharing.isAvailableAsync();
+  if (!isAvailable) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const fileName = `code_${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.${getLanguageExtension(language)}`;
+  const file = new File(Paths.cache, fileName);
+  file.write(code);
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: getMimeType(fileName),
+    dialogTitle: 'Save code',
+  });
+
+  try {
+    file.delete();
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
+export const CodeBlock = memo(function CodeBlock({ code, language }: CodeBlockProps) {
+  const { theme, textStyle, isDark } = useSettings();
+  const [wrap, setWrap] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const copiedTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+  const colors = SYNTAX_COLORS[isDark ? 'dark' : 'light'];
+
+  useEffect(() => () => {
+    if (copiedTimer.current) clearTimeout(copiedTimer.current);
+  }, []);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await Clipboard.setStringAsync(code);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setCopied(true);
+      if (copiedTimer.current) clearTimeout(copiedTimer.current);
+      copiedTimer.current = setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.warn('Failed to copy code:', error);
+    }
+  }, [code]);
+
+  const handleToggleWrap = useCallback(() => {
+    Haptics.selectionAsync();
+    setWrap(prev => !prev);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    try {
+      await saveCodeAsFile(code, language);
+    } catch (error) {
+      Alert.alert('Save Failed', error instanceof Error ? error.message : 'Could not save the code.');
+    }
+  }, [code, language]);
+
+  const codeText = (
+    <Text
+      selectable
+      style={[
+        styles.code,
+        {
+          color: colors.plain,
+          fontFamily: MONOSPACE,
+          fontSize: textStyle.fontSize - 3,
+          lineHeight: textStyle.lineHeight - 3,
+        },
+      ]}
+    >
+      {tokens.map((token, i) =>
+        token.type === 'plain'
+          ? token.text
+          : <Text key={i} style={{ color: colors[token.type] }}>{token.text}</Text>
+      )}
+    </Text>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: isDark ? '#1e1e1e' : '#f6f8fa', borderColor: theme.border }]}>
+      <View style={[styles.header, { borderBottomColor: theme.border }]}>
+        <Text style={[styles.language, { color: theme.textMuted }]} numberOfLines={1}>
+          {getLanguageLabel(language)}
+        </Text>
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={handleToggleWrap} hitSlop={6} accessibilityLabel="Toggle soft wrap">
+            <Text style={[styles.action, { color: wrap ? theme.primary : theme.textSecondary }]}>↩ Wrap</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleSave} hitSlop={6} accessibilityLabel="Save as file">
+            <Text style={[styles.action, { color: theme.textSecondary }]}>⤓ Save</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleCopy} hitSlop={6} accessibilityLabel="Copy code">
+            <Text style={[styles.action, { color: copied ? theme.success : theme.textSecondary }]}>
+              {copied ? '✓ Copied' : '⧉ Copy'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {wrap ? (
+        <View style={styles.body}>{codeText}</View>
+      ) : (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.body}>
+          {codeText}
+        </ScrollView>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: radius.sm,
+    borderWidth: StyleSheet.hairlineWidth,
+    marginVertical: spacing.sm,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.sm + 2,
+    paddingVertical: spacing.xs + 2,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  language: {
+    fontSize: 11,
+    fontWeight: '600',
+    flexShrink: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  action: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  body: {
+    padding: spacing.sm + 2,
+  },
+  code: {
+    flexShrink: 1,
+  },
+});
@@ -35,6 +35,8 @@ interface GlobalSearchModalProps {
   client: GatewayClient | null;
   currentSessionKey: string;
   onNavigateToMessage: (sessionKey: string, messageIndex: number) => void;
+  // Query to start with when opened (e.g. from /search)
+  initialQuery?: string;
 }
 
 // Extract text from message content
@@ -108,6 +110,7 @@ export function GlobalSearchModal({
   client,
   currentSessionKey,
   onNavigateToMessage,
+  initialQuery,
 }: GlobalSearchModalProps) {
   const { theme, textStyle } = useSettings();
   const [query, setQuery] = useState('');
@@ -124,7 +127,7 @@ export function GlobalSearchModal({
   // Focus input when opened
   useEffect(() => {
     if (visible) {
-      setQuery('');
+      setQuery(initialQuery ?? '');
       setResults([]);
       setSearchedSessions(0);
       setTimeout(() => {
@@ -134,7 +137,7 @@ export function GlobalSearchModal({
       // Abort any ongoing search when closing
       searchAbortRef.current?.abort();
     }
-  }, [visible]);
+  }, [visible, initialQuery]);
   
   // Perform search across all sessions
   const performSearch = useCallback(async (searchQuery: string) => {
@@ -3,19 +3,66 @@
  * 
  * Renders markdown content with proper styling for code blocks,
  * links, lists, and other markdown elements.
+ * Fenced code is rendered by CodeBlock (syntax highlighting, copy, wrap, save),
+ * tables by MarkdownTable and $…$ / $$…$$ math by MathView.
+ * Memoized by content so settled messages are not re-parsed while another streams.
  */
 
-import React, { useMemo } from 'react';
-import { StyleSheet, Text, View, Linking, useWindowDimensions } from 'react-native';
-import Markdown from 'react-native-marked';
+import React, { memo, useMemo, type ReactNode } from 'react';
+import { StyleSheet, Text, View, Linking, useWindowDimensions, type TextStyle, type ViewStyle } from 'react-native';
+import Markdown, { Renderer, type RendererInterface } from 'react-native-marked';
 import { useSettings } from '../stores/settings';
+import { prepareMath, getInlineMath, MATH_LANGUAGE } from '../utils/math';
+import { CodeBlock } from './CodeBlock';
+import { MarkdownTable } from './MarkdownTable';
+import { MathView } from './MathView';
 
 interface MarkdownRendererProps {
   content: string;
   isUserMessage?: boolean;
 }
 
-export function MarkdownRenderer({ content, isUserMessage = false }: MarkdownRendererProps) {
+// Renderer with highlighted code blocks, scrollable tables and typeset math
+class ChatRenderer extends Renderer implements RendererInterface {
+  constructor(private readonly mathStyle: { color: string; fontSize: number }) {
+    super();
+  }
+
+  code(text: string, language?: string): ReactNode {
+    if (language === MATH_LANGUAGE) {
+      return <MathView key={this.getKey()} tex={text} display {...this.mathStyle} />;
+    }
+    return <CodeBlock key={this.getKey()} code={text} language={language} />;
+  }
+
+  codespan(text: string, styles?: TextStyle): ReactNode {
+    const tex = getInlineMath(text);
+    if (tex !== null) {
+      return <MathView key={this.getKey()} tex={tex} {...this.mathStyle} />;
+    }
+    return super.codespan(text, styles);
+  }
+
+  table(
+    header: ReactNode[][],
+    rows: ReactNode[][][],
+    tableStyle?: ViewStyle,
+    _rowStyle?: ViewStyle,
+    cellStyle?: ViewStyle,
+  ): ReactNode {
+    return (
+      <MarkdownTable
+        key={this.getKey()}
+        header={header}
+        rows={rows}
+        borderColor={tableStyle?.borderColor as string | undefined}
+        cellStyle={cellStyle}
+      />
+    );
+  }
+}
+
+export const MarkdownRenderer = memo(function MarkdownRenderer({ content, isUserMessage = false }: MarkdownRendererProps) {
   const { theme, textStyle, isDark } = useSettings();
   const { width: screenWidth } = useWindowDimensions();
   
@@ -139,26 +186,9 @@ export function MarkdownRenderer({ content, isUserMessage = false }: MarkdownRen
       marginVertical: 12,
     },
     
-    // Table
+    // Table (layout is done by MarkdownTable)
     table: {
-      borderWidth: 1,
-      borderColor: theme.border,
-      marginVertical: 8,
-      borderRadius: 4,
-      overflow: 'hidden' as const,
-    },
-    tableRow: {
-      flexDirection: 'row' as const,
-      borderBottomWidth: 1,
-      borderBottomColor: theme.border,
-    },
-    tableCell: {
-      padding: 8,
-      flex: 1,
-    },
-    tableHeader: {
-      backgroundColor: isDark ? '#2d2d2d' : '#f5f5f5',
-      fontWeight: '600' as const,
+      borderColor: isUserMessage ? 'rgba(255,255,255,0.3)' : theme.border,
     },
     
     // Image
@@ -168,9 +198,15 @@ export function MarkdownRenderer({ content, isUserMessage = false }: MarkdownRen
     },
   }), [theme, textStyle, isUserMessage, isDark, screenWidth]);
   
-  // Clean up content (remove trailing whitespace issues)
+  const mathColor = isUserMessage ? '#fff' : theme.text;
+  const renderer = useMemo(
+    () => new ChatRenderer({ color: mathColor, fontSize: textStyle.fontSize }),
+    [mathColor, textStyle.fontSize]
+  );
+  
+  // Clean up content (remove trailing whitespace issues, protect math from markdown)
   const cleanContent = useMemo(() => {
-    return content.trim();
+    return prepareMath(content.trim());
   }, [content]);
   
   if (!cleanContent) {
@@ -181,10 +217,11 @@ export function MarkdownRenderer({ content, isUserMessage = false }: MarkdownRen
     <Markdown 
       value={cleanContent} 
       flatListProps={undefined}
+      renderer={renderer}
       styles={styles as any}
     />
   );
-}
+});
 
 // Simple text renderer fallback (for user messages or when markdown is overkill)
 export function SimpleTextRenderer({ content, isUserMessage = false }: MarkdownRendererProps) {
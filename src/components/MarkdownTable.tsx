@@ -0,0 +1,125 @@
+/**
+ * Markdown Table
+ *
+ * GFM tables from markdown:
+ * - Scrolls horizontally instead of squeezing wide tables into the bubble
+ * - Column widths sized to their content
+ * - Bold header row and striped body rows
+ */
+
+import React, { memo, useMemo, isValidElement, type ReactNode } from 'react';
+import { View, Text, StyleSheet, ScrollView, type ViewStyle } from 'react-native';
+import { useSettings } from '../stores/settings';
+import { spacing, radius } from '../theme/colors';
+
+interface MarkdownTableProps {
+  header: ReactNode[][];
+  rows: ReactNode[][][];
+  borderColor?: string;
+  cellStyle?: ViewStyle;
+}
+
+const MIN_COLUMN_WIDTH = 64;
+const MAX_COLUMN_WIDTH = 280;
+
+// Plain text of rendered markdown nodes (for measuring columns)
+function nodeText(node: ReactNode): string {
+  if (node === null || node === undefined || typeof node === 'boolean') return '';
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(nodeText).join('');
+  if (isValidElement<{ children?: ReactNode }>(node)) return nodeText(node.props.children);
+  return '';
+}
+
+export const MarkdownTable = memo(function MarkdownTable({ header, rows, borderColor, cellStyle }: MarkdownTableProps) {
+  const { theme, textStyle } = useSettings();
+  const border = borderColor ?? theme.border;
+
+  const columnWidths = useMemo(() => {
+    const charWidth = textStyle.fontSize * 0.55;
+    return header.map((cell, col) => {
+      const longest = Math.max(
+        nodeText(cell).length,
+        ...rows.map(row => nodeText(row[col]).length),
+      );
+      const width = longest * charWidth + spacing.md * 2;
+      return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, width));
+    });
+  }, [header, rows, textStyle.fontSize]);
+
+  const renderRow = (cells: ReactNode[][], index: number, isHeader: boolean) => (
+    <View
+      key={isHeader ? 'header' : index}
+      style={[
+        styles.row,
+        { borderBottomColor: border },
+        isHeader && styles.headerRow,
+        !isHeader && index % 2 === 1 && styles.stripedRow,
+        !isHeader && index === rows.length - 1 && styles.lastRow,
+      ]}
+    >
+      {columnWidths.map((width, col) => (
+        <View
+          key={col}
+          style={[
+            cellStyle,
+            styles.cell,
+            { width, borderRightColor: border },
+            col === columnWidths.length - 1 && styles.lastCell,
+          ]}
+        >
+          {isHeader ? <Text style={styles.headerText}>{cells[col]}</Text> : cells[col]}
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.scroll}
+    >
+      <View style={[styles.table, { borderColor: border }]}>
+        {renderRow(header, 0, true)}
+        {rows.map((row, i) => renderRow(row, i, false))}
+      </View>
+    </ScrollView>
+  );
+});
+
+const styles = StyleSheet.create({
+  scroll: {
+    marginVertical: spacing.sm,
+  },
+  table: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: radius.sm,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  headerRow: {
+    backgroundColor: 'rgba(127,127,127,0.15)',
+  },
+  stripedRow: {
+    backgroundColor: 'rgba(127,127,127,0.06)',
+  },
+  lastRow: {
+    borderBottomWidth: 0,
+  },
+  cell: {
+    paddingHorizontal: spacing.sm + 2,
+    paddingVertical: spacing.xs + 2,
+    justifyContent: 'center',
+    borderRightWidth: StyleSheet.hairlineWidth,
+  },
+  lastCell: {
+    borderRightWidth: 0,
+  },
+  headerText: {
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,431 @@
+/**
+ * Math View
+ *
+ * Typesets TeX from markdown ($…$ inline, $$…$$ display):
+ * - Fractions, roots, scripts, big operators, accents and matrices as nested views
+ * - Stretchy delimiters and radicals drawn with react-native-svg
+ * - Simple inline formulas render as text so they wrap with the paragraph
+ * Falls back to the raw TeX if it can't be laid out.
+ */
+
+import React, { memo, useMemo, type ReactNode } from 'react';
+import { View, Text, StyleSheet, ScrollView, Platform } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import { parseTeX, isFlatMath, type MathNode } from '../utils/math';
+
+interface MathViewProps {
+  tex: string;
+  display?: boolean;
+  color: string;
+  fontSize: number;
+}
+
+interface LayoutContext {
+  size: number;
+  color: string;
+  display: boolean;
+}
+
+const SERIF = Platform.select({ ios: 'Times New Roman', default: 'serif' });
+const MONOSPACE = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+// Script size relative to the base
+const SCRIPT_SCALE = 0.7;
+
+// Space around operators, in em
+const SPACING = { rel: 0.28, bin: 0.22, punct: 0.17 };
+
+// Delimiter shapes in a 10×100 box, drawn for the left side and mirrored for the right
+const FENCE_PATHS: Record<string, string> = {
+  '(': 'M8,1 Q1,50 8,99',
+  '[': 'M8,1 L3,1 L3,99 L8,99',
+  '{': 'M8,1 Q4,1 4,10 L4,42 Q4,50 1,50 Q4,50 4,58 L4,90 Q4,99 8,99',
+  '⟨': 'M8,1 L2,50 L8,99',
+  '⌈': 'M8,1 L3,1 L3,99',
+  '⌊': 'M3,1 L3,99 L8,99',
+  '|': 'M5,1 L5,99',
+  '‖': 'M3,1 L3,99 M7,1 L7,99',
+};
+
+const MIRRORED: Record<string, string> = {
+  ')': '(', ']': '[', '}': '{', '⟩': '⟨', '⌉': '⌈', '⌋': '⌊',
+};
+
+function mirrorPath(path: string): string {
+  return path.replace(/(\d+(?:\.\d+)?),(\d+(?:\.\d+)?)/g, (_, x, y) => `${10 - Number(x)},${y}`);
+}
+
+function Fence({ char, color, size }: { char: string; color: string; size: number }) {
+  const base = MIRRORED[char] ?? char;
+  const path = FENCE_PATHS[base];
+  if (!path) {
+    return char ? <Text style={[styles.symbol, { color, fontSize: size }]}>{char}</Text> : null;
+  }
+
+  return (
+    <View style={[styles.fence, { width: size * 0.4 }]}>
+      <Svg width="100%" height="100%" viewBox="0 0 10 100" preserveAspectRatio="none">
+        <Path
+          d={MIRRORED[char] ? mirrorPath(path) : path}
+          stroke={color}
+          strokeWidth={Math.max(1, size / 16)}
+          fill="none"
+          vectorEffect="non-scaling-stroke"
+        />
+      </Svg>
+    </View>
+  );
+}
+
+function RadicalSign({ color, size }: { color: string; size: number }) {
+  return (
+    <View style={[styles.fence, { width: size * 0.6 }]}>
+      <Svg width="100%" height="100%" viewBox="0 0 10 100" preserveAspectRatio="none">
+        <Path
+          d="M0,62 L3,56 L6,99 L10,1"
+          stroke={color}
+          strokeWidth={Math.max(1, size / 16)}
+          fill="none"
+          vectorEffect="non-scaling-stroke"
+        />
+      </Svg>
+    </View>
+  );
+}
+
+// Rough height of laid out nodes, used to line up matrix rows
+function estimateHeight(nodes: MathNode[], size: number): number {
+  let height = size * 1.2;
+  for (const node of nodes) {
+    height = Math.max(height, estimateNodeHeight(node, size));
+  }
+  return height;
+}
+
+function estimateNodeHeight(node: MathNode, size: number): number {
+  switch (node.type) {
+    case 'group':
+      return estimateHeight(node.children, size);
+    case 'frac':
+      return estimateHeight(node.num, size * 0.85) + estimateHeight(node.den, size * 0.85) + 4;
+    case 'sqrt':
+    case 'accent':
+    case 'delimited':
+      return estimateHeight(node.body, size) + size * 0.3;
+    case 'scripts':
+      return estimateNodeHeight(node.base, size) + (node.sup ? size * 0.35 : 0) + (node.sub ? size * 0.35 : 0);
+    case 'bigop':
+      return size * 1.8 + (node.sup ? size * 0.8 : 0) + (node.sub ? size * 0.8 : 0);
+    case 'matrix':
+      return node.rows.reduce((sum, row) => sum + Math.max(...row.map(cell => estimateHeight(cell, size)), size * 1.2), 0);
+    default:
+      return size * 1.2;
+  }
+}
+
+function renderRow(nodes: MathNode[], ctx: LayoutContext, key?: string | number): ReactNode {
+  return (
+    <View key={key} style={styles.row}>
+      {nodes.map((node, i) => renderNode(node, ctx, i))}
+    </View>
+  );
+}
+
+function renderScripts(base: ReactNode, sup: MathNode[] | undefined, sub: MathNode[] | undefined, ctx: LayoutContext, key: number): ReactNode {
+  const scriptCtx = { ...ctx, size: ctx.size * SCRIPT_SCALE };
+  return (
+    <View key={key} style={styles.row}>
+      {base}
+      <View style={styles.scripts}>
+        {sup ? renderRow(sup, scriptCtx) : <View style={{ height: ctx.size * 0.45 }} />}
+        {sub ? renderRow(sub, scriptCtx) : <View style={{ height: ctx.size * 0.45 }} />}
+      </View>
+    </View>
+  );
+}
+
+function renderNode(node: MathNode, ctx: LayoutContext, key: number): ReactNode {
+  const { size, color } = ctx;
+
+  switch (node.type) {
+    case 'symbol': {
+      const margin = node.spacing ? SPACING[node.spacing] * size : 0;
+      return (
+        <Text
+          key={key}
+          style={[
+            styles.symbol,
+            {
+              color,
+              fontSize: size,
+              fontStyle: node.italic ? 'italic' : 'normal',
+              fontWeight: node.bold ? '700' : 'normal',
+              marginLeft: node.spacing === 'punct' ? 0 : margin,
+              marginRight: margin,
+            },
+          ]}
+        >
+          {node.text}
+        </Text>
+      );
+    }
+
+    case 'text':
+      return (
+        <Text key={key} style={[styles.symbol, { color, fontSize: size, fontWeight: node.bold ? '700' : 'normal' }]}>
+          {node.text}
+        </Text>
+      );
+
+    case 'space':
+      return node.width < 0
+        ? <View key={key} style={{ marginLeft: node.width * size }} />
+        : <View key={key} style={{ width: node.width * size }} />;
+
+    case 'group':
+      return renderRow(node.children, ctx, key);
+
+    case 'frac': {
+      const partCtx = { ...ctx, size: ctx.display ? size : size * 0.85 };
+      return (
+        <View key={key} style={[styles.frac, { marginHorizontal: size * 0.1 }]}>
+          {renderRow(node.num, partCtx)}
+          <View style={[styles.fracBar, { backgroundColor: node.bar ? color : 'transparent', height: Math.max(1, size / 18) }]} />
+          {renderRow(node.den, partCtx)}
+        </View>
+      );
+    }
+
+    case 'sqrt':
+      return (
+        <View key={key} style={styles.row}>
+          {node.index && (
+            <View style={[styles.radicalIndex, { marginRight: -size * 0.35 }]}>
+              {renderRow(node.index, { ...ctx, size: size * 0.55 })}
+            </View>
+          )}
+          <View style={styles.stretch}>
+            <RadicalSign color={color} size={size} />
+            <View style={[styles.radicand, { borderTopColor: color, borderTopWidth: Math.max(1, size / 16) }]}>
+              {renderRow(node.body, ctx)}
+            </View>
+          </View>
+        </View>
+      );
+
+    case 'scripts':
+      return renderScripts(renderNode(node.base, ctx, 0), node.sup, node.sub, ctx, key);
+
+    case 'bigop': {
+      const isSymbol = node.text.length === 1;
+      const opSize = isSymbol ? size * (ctx.display ? 1.6 : 1.2) : size;
+      const op = (
+        <Text key={0} style={[styles.symbol, { color, fontSize: opSize, marginHorizontal: size * 0.1 }]}>
+          {node.text}
+        </Text>
+      );
+      if (node.limits && ctx.display) {
+        const limitCtx = { ...ctx, size: size * SCRIPT_SCALE };
+        return (
+          <View key={key} style={[styles.frac, { marginHorizontal: size * 0.1 }]}>
+            {node.sup && renderRow(node.sup, limitCtx)}
+            {op}
+            {node.sub && renderRow(node.sub, limitCtx)}
+          </View>
+        );
+      }
+      return node.sup || node.sub ? renderScripts(op, node.sup, node.sub, ctx, key) : <View key={key}>{op}</View>;
+    }
+
+    case 'accent':
+      if (node.accent === '¯') {
+        return (
+          <View key={key} style={{ borderTopWidth: Math.max(1, size / 16), borderTopColor: color, paddingTop: 1 }}>
+            {renderRow(node.body, ctx)}
+          </View>
+        );
+      }
+      return (
+        <View key={key} style={styles.frac}>
+          <Text style={[styles.symbol, styles.accent, { color, fontSize: size * 0.8, lineHeight: size * 0.6 }]}>
+            {node.accent}
+          </Text>
+          {renderRow(node.body, ctx)}
+        </View>
+      );
+
+    case 'delimited':
+      return (
+        <View key={key} style={styles.stretch}>
+          <Fence char={node.left} color={color} size={size} />
+          <View style={[styles.row, styles.fenced]}>{node.body.map((child, i) => renderNode(child, ctx, i))}</View>
+          <Fence char={node.right} color={color} size={size} />
+        </View>
+      );
+
+    case 'matrix': {
+      const columnCount = Math.max(...node.rows.map(row => row.length));
+      const rowHeights = node.rows.map(row => Math.max(...row.map(cell => estimateHeight(cell, size)), size * 1.2));
+      const columns = Array.from({ length: columnCount }, (_, col) => node.rows.map(row => row[col] ?? []));
+      return (
+        <View key={key} style={styles.stretch}>
+          <Fence char={node.left} color={color} size={size} />
+          <View style={[styles.row, styles.fenced]}>
+            {columns.map((cells, col) => (
+              <View
+                key={col}
+                style={[
+                  styles.matrixColumn,
+                  { alignItems: node.align === 'left' ? 'flex-start' : 'center', paddingHorizontal: size * 0.35 },
+                ]}
+              >
+                {cells.map((cell, row) => (
+                  <View key={row} style={[styles.matrixCell, { minHeight: rowHeights[row] }]}>
+                    {renderRow(cell, ctx)}
+                  </View>
+                ))}
+              </View>
+            ))}
+          </View>
+          <Fence char={node.right} color={color} size={size} />
+        </View>
+      );
+    }
+  }
+}
+
+// Flat formula as nested text (wraps with the surrounding paragraph)
+function renderFlatText(nodes: MathNode[]): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'symbol': {
+        const spaced = node.spacing === 'rel' || node.spacing === 'bin' ? ` ${node.text} ` : node.text;
+        return node.italic || node.bold ? (
+          <Text key={i} style={{ fontStyle: node.italic ? 'italic' : 'normal', fontWeight: node.bold ? '700' : 'normal' }}>
+            {spaced}
+          </Text>
+        ) : spaced;
+      }
+      case 'text':
+        return node.bold ? <Text key={i} style={{ fontWeight: '700' }}>{node.text}</Text> : node.text;
+      case 'space':
+        return node.width > 0.5 ? '  ' : node.width > 0 ? ' ' : '';
+      case 'group':
+        return <Text key={i}>{renderFlatText(node.children)}</Text>;
+      default:
+        return null;
+    }
+  });
+}
+
+export const MathView = memo(function MathView({ tex, display = false, color, fontSize }: MathViewProps) {
+  const rows = useMemo(() => {
+    try {
+      return parseTeX(tex);
+    } catch (error) {
+      console.warn('Failed to parse math:', error);
+      return null;
+    }
+  }, [tex]);
+
+  if (!rows) {
+    return (
+      <Text style={{ color, fontSize: fontSize - 1, fontFamily: MONOSPACE }}>
+        {display ? tex : `$${tex}$`}
+      </Text>
+    );
+  }
+
+  if (!display) {
+    if (rows.length === 1 && isFlatMath(rows[0])) {
+      return (
+        <Text style={[styles.symbol, { color, fontSize }]} accessibilityLabel={tex}>
+          {renderFlatText(rows[0])}
+        </Text>
+      );
+    }
+    return (
+      <View style={styles.inline} accessibilityLabel={tex}>
+        {rows.map((row, i) => renderRow(row, { size: fontSize, color, display: false }, i))}
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.display}
+      contentContainerStyle={styles.displayContent}
+      accessibilityLabel={tex}
+    >
+      <View style={styles.displayRows}>
+        {rows.map((row, i) => renderRow(row, { size: fontSize + 2, color, display: true }, i))}
+      </View>
+    </ScrollView>
+  );
+});
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stretch: {
+    flexDirection: 'row',
+    alignItems: 'stretch',
+  },
+  symbol: {
+    fontFamily: SERIF,
+  },
+  accent: {
+    textAlign: 'center',
+    includeFontPadding: false,
+  },
+  scripts: {
+    justifyContent: 'center',
+    marginLeft: 1,
+  },
+  frac: {
+    alignItems: 'center',
+  },
+  fracBar: {
+    alignSelf: 'stretch',
+    marginVertical: 2,
+  },
+  radicalIndex: {
+    alignSelf: 'flex-start',
+    zIndex: 1,
+  },
+  radicand: {
+    paddingTop: 2,
+    paddingRight: 2,
+  },
+  fence: {
+    alignSelf: 'stretch',
+    minHeight: 16,
+  },
+  fenced: {
+    paddingVertical: 2,
+  },
+  matrixColumn: {
+    justifyContent: 'center',
+  },
+  matrixCell: {
+    justifyContent: 'center',
+  },
+  inline: {
+    alignItems: 'center',
+  },
+  display: {
+    marginVertical: 6,
+  },
+  displayContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    paddingVertical: 4,
+  },
+  displayRows: {
+    alignItems: 'center',
+  },
+});
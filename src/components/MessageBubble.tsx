@@ -8,9 +8,14 @@
  * - AI messages: dark surface, left-aligned, wider max-width
  * - Timestamps: small, muted, below bubble
  * - TTS playback with animated button
+ * - Edit & resend / Regenerate with a version switcher
+ * - Branch a new session from any message
+ * - Star messages to keep them in the saved list
+ * - Collapsible tool call cards
+ * - Memoized by message id + content hash (streaming re-renders only the streaming bubble)
  */
 
-import React, { useMemo, useCallback, useState } from 'react';
+import React, { memo, useMemo, useCallback, useState } from 'react';
 import { View, Text, Image, StyleSheet, Pressable, Alert, Share, TouchableOpacity, ActivityIndicator } from 'react-native';
 import Animated, { 
   useAnimatedStyle, 
@@ -23,9 +28,13 @@ import * as Clipboard from 'expo-clipboard';
 import * as Haptics from 'expo-haptics';
 import { MarkdownRenderer, SimpleTextRenderer } from './MarkdownRenderer';
 import { TypingDots } from './TypingIndicator';
+import { ToolCallCard } from './ToolCallCard';
 import { useSettings } from '../stores/settings';
 import { speakText, stopSpeaking } from '../services/tts';
 import { spacing, radius, shadows } from '../theme/colors';
+import { getToolCalls, type ToolResultIndex } from '../utils/tools';
+import { isSameMessage } from '../utils/messageHash';
+import type { MessageVersionInfo } from '../utils/versions';
 import type { UIMessage } from '../types';
 
 interface MessageBubbleProps {
@@ -34,18 +43,41 @@ interface MessageBubbleProps {
   showTimestamp?: boolean;
   gatewayUrl?: string;
   onReply?: (text: string) => void;
+  onEdit?: (messageId: string, text: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  versionInfo?: MessageVersionInfo;
+  onSelectVersion?: (groupId: string, index: number) => void;
+  onBranch?: (messageId: string) => void;
+  isStarred?: boolean;
+  onToggleStar?: (message: UIMessage, text: string) => void;
+  // Assistant name and avatar of the session's persona
+  persona?: { name: string; emoji: string };
+  // Model that produced this reply
+  modelName?: string;
+  // Tool results of the conversation (a call's result may arrive in a later message)
+  toolResults?: ToolResultIndex;
   isNew?: boolean;
 }
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 const AnimatedTouchable = Animated.createAnimatedComponent(TouchableOpacity);
 
-export function MessageBubble({ 
+function MessageBubbleComponent({ 
   message, 
   isStreaming, 
   showTimestamp = true, 
   gatewayUrl, 
   onReply,
+  onEdit,
+  onRegenerate,
+  versionInfo,
+  onSelectVersion,
+  onBranch,
+  isStarred = false,
+  onToggleStar,
+  persona = { name: 'Cami', emoji: '🦎' },
+  modelName,
+  toolResults,
   isNew = false,
 }: MessageBubbleProps) {
   const { theme, textStyle, isDark } = useSettings();
@@ -86,6 +118,13 @@ export function MessageBubble({
     return { textContent: text, images: imgs, thinkingContent: thinking };
   }, [message.content]);
   
+  // Tool calls paired with their results
+  const toolCalls = useMemo(
+    () => getToolCalls(message.content, toolResults, isStreaming),
+    [message.content, toolResults, isStreaming]
+  );
+  const hasToolContent = message.content.some(block => block.type === 'tool_use' || block.type === 'tool_result');
+  
   // Format timestamp
   const formattedTime = useMemo(() => {
     if (!message.timestamp) return null;
@@ -171,14 +210,39 @@ export function MessageBubble({
       options.unshift({ text: 'Reply', onPress: handleReply });
     }
     
+    if (isUser && onEdit && textContent && !isStreaming) {
+      options.push({ text: 'Edit & Resend', onPress: async () => onEdit(message.id, textContent) });
+    }
+    
+    if (!isUser && onRegenerate && !isStreaming) {
+      options.push({ text: 'Regenerate', onPress: async () => onRegenerate(message.id) });
+    }
+    
     if (!isUser && textContent && gatewayUrl && !isStreaming) {
       options.push({ text: ttsPlaying ? 'Stop Audio' : 'Read Aloud', onPress: handleTTS });
     }
     
+    if (onBranch && !isStreaming) {
+      options.push({ text: 'Branch from Here', onPress: async () => onBranch(message.id) });
+    }
+    
+    if (onToggleStar && textContent && !isStreaming) {
+      options.push({ text: isStarred ? 'Unstar' : 'Star', onPress: async () => onToggleStar(message, textContent) });
+    }
+    
     options.push({ text: 'Cancel', style: 'cancel' } as any);
     
     Alert.alert('Message', undefined, options, { cancelable: true });
-  }, [handleCopy, handleShare, handleReply, handleTTS, onReply, isUser, textContent, gatewayUrl, isStreaming, ttsPlaying, scale]);
+  }, [handleCopy, handleShare, handleReply, handleTTS, onReply, onEdit, onRegenerate, onBranch, onToggleStar, isStarred, message, isUser, textContent, gatewayUrl, isStreaming, ttsPlaying, scale]);
+  
+  // Flip between reply versions
+  const handleSelectVersion = useCallback((delta: number) => {
+    if (!versionInfo || !onSelectVersion) return;
+    const next = versionInfo.index + delta;
+    if (next < 0 || next >= versionInfo.count) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSelectVersion(versionInfo.groupId, next);
+  }, [versionInfo, onSelectVersion]);
   
   // Press in/out animations
   const handlePressIn = useCallback(() => {
@@ -207,6 +271,11 @@ export function MessageBubble({
     shadows.bubble,
   ], [isUser, isError, theme]);
   
+  // Only results of calls shown in another message: nothing to render
+  if (hasToolContent && toolCalls.length === 0 && !textContent && images.length === 0 && !thinkingContent && !isStreaming && !isError) {
+    return null;
+  }
+  
   return (
     <AnimatedPressable
       onLongPress={handleLongPress}
@@ -221,7 +290,7 @@ export function MessageBubble({
         {!isUser && (
           <View style={styles.roleContainer}>
             <Text style={[styles.roleLabel, { color: theme.primary }]}>
-              🦎 Cami
+              {persona.emoji} {persona.name}
             </Text>
           </View>
         )}
@@ -247,6 +316,11 @@ export function MessageBubble({
           </View>
         )}
         
+        {/* Tool calls */}
+        {toolCalls.map(call => (
+          <ToolCallCard key={call.id} call={call} />
+        ))}
+        
         {/* Text content */}
         {textContent ? (
           isUser ? (
@@ -257,7 +331,7 @@ export function MessageBubble({
         ) : null}
         
         {/* Streaming indicator */}
-        {isStreaming && !textContent && <TypingDots />}
+        {isStreaming && !textContent && toolCalls.length === 0 && <TypingDots />}
         
         {/* Error message */}
         {isError && message.errorMessage && (
@@ -288,6 +362,41 @@ export function MessageBubble({
             </AnimatedTouchable>
           )}
           
+          {/* Version switcher */}
+          {versionInfo && versionInfo.count > 1 && !isStreaming && (
+            <View style={styles.versionSwitcher}>
+              <TouchableOpacity
+                onPress={() => handleSelectVersion(-1)}
+                disabled={versionInfo.index === 0}
+                hitSlop={8}
+              >
+                <Text style={[styles.versionArrow, { color: isUser ? '#fff' : theme.primary, opacity: versionInfo.index === 0 ? 0.3 : 1 }]}>‹</Text>
+              </TouchableOpacity>
+              <Text style={[styles.versionLabel, { color: isUser ? 'rgba(255,255,255,0.8)' : theme.textMuted }]}>
+                {versionInfo.index + 1}/{versionInfo.count}
+              </Text>
+              <TouchableOpacity
+                onPress={() => handleSelectVersion(1)}
+                disabled={versionInfo.index === versionInfo.count - 1}
+                hitSlop={8}
+              >
+                <Text style={[styles.versionArrow, { color: isUser ? '#fff' : theme.primary, opacity: versionInfo.index === versionInfo.count - 1 ? 0.3 : 1 }]}>›</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          
+          {/* Model */}
+          {!isUser && modelName && !isStreaming && (
+            <Text style={[styles.modelLabel, { color: theme.textMuted }]} numberOfLines={1}>
+              {modelName}
+            </Text>
+          )}
+          
+          {/* Starred */}
+          {isStarred && (
+            <Text style={[styles.starIcon, { color: isUser ? '#fff' : theme.warning }]}>★</Text>
+          )}
+          
           {/* Timestamp */}
           {showTimestamp && formattedTime && (
             <Text style={[
@@ -303,6 +412,36 @@ export function MessageBubble({
   );
 }
 
+// Re-render only when the message content or a prop that affects it changed
+function areBubblePropsEqual(prev: MessageBubbleProps, next: MessageBubbleProps): boolean {
+  if (!isSameMessage(prev.message, next.message)) return false;
+  
+  const hasToolUse = next.message.content.some(block => block.type === 'tool_use');
+  if (hasToolUse && prev.toolResults !== next.toolResults) return false;
+  
+  return (
+    prev.isStreaming === next.isStreaming &&
+    prev.showTimestamp === next.showTimestamp &&
+    prev.gatewayUrl === next.gatewayUrl &&
+    prev.onReply === next.onReply &&
+    prev.onEdit === next.onEdit &&
+    prev.onRegenerate === next.onRegenerate &&
+    prev.versionInfo?.groupId === next.versionInfo?.groupId &&
+    prev.versionInfo?.index === next.versionInfo?.index &&
+    prev.versionInfo?.count === next.versionInfo?.count &&
+    prev.onSelectVersion === next.onSelectVersion &&
+    prev.onBranch === next.onBranch &&
+    prev.isStarred === next.isStarred &&
+    prev.onToggleStar === next.onToggleStar &&
+    prev.persona?.name === next.persona?.name &&
+    prev.persona?.emoji === next.persona?.emoji &&
+    prev.modelName === next.modelName &&
+    prev.isNew === next.isNew
+  );
+}
+
+export const MessageBubble = memo(MessageBubbleComponent, areBubblePropsEqual);
+
 const styles = StyleSheet.create({
   container: {
     paddingHorizontal: spacing.md,
@@ -382,6 +521,29 @@ const styles = StyleSheet.create({
   ttsIcon: {
     fontSize: 14,
   },
+  versionSwitcher: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginLeft: spacing.sm,
+  },
+  versionArrow: {
+    fontSize: 18,
+    fontWeight: '700',
+    paddingHorizontal: 2,
+  },
+  versionLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  modelLabel: {
+    fontSize: 10,
+    marginLeft: spacing.sm,
+    flexShrink: 1,
+  },
+  starIcon: {
+    fontSize: 11,
+  },
   timestamp: {
     fontSize: 10,
     textAlign: 'right',
@@ -0,0 +1,221 @@
+/**
+ * Model picker
+ *
+ * Features:
+ * - Models reported by the gateway with provider and context size
+ * - Per-session override or the default for all sessions
+ * - Pull to refresh the model list
+ */
+
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useSettings } from '../stores/settings';
+import type { ModelInfo } from '../types';
+
+type ModelScope = 'session' | 'default';
+
+interface ModelPickerProps {
+  visible: boolean;
+  onClose: () => void;
+  models: ModelInfo[];
+  defaultModel: string | null;
+  sessionModel: string | null;
+  onSelectDefault: (modelId: string | null) => void;
+  onSelectSession: (modelId: string | null) => void;
+  onRefresh: () => Promise<void>;
+}
+
+// Format a context window size (e.g. 200000 -> "200K")
+export function formatContextWindow(tokens?: number): string | null {
+  if (!tokens) return null;
+  if (tokens >= 1_000_000) return `${Math.round(tokens / 100_000) / 10}M`;
+  if (tokens >= 1000) return `${Math.round(tokens / 1000)}K`;
+  return String(tokens);
+}
+
+// Display name of a model id
+export function getModelName(models: ModelInfo[], modelId: string | null): string | null {
+  if (!modelId) return null;
+  return models.find(m => m.id === modelId)?.name ?? modelId;
+}
+
+export function ModelPicker({
+  visible,
+  onClose,
+  models,
+  defaultModel,
+  sessionModel,
+  onSelectDefault,
+  onSelectSession,
+  onRefresh,
+}: ModelPickerProps) {
+  const { theme } = useSettings();
+  const [scope, setScope] = useState<ModelScope>('session');
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (visible) setScope('session');
+  }, [visible]);
+
+  const selectedId = scope === 'session' ? sessionModel : defaultModel;
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await onRefresh();
+    setIsRefreshing(false);
+  }, [onRefresh]);
+
+  const handleSelect = useCallback((modelId: string | null) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (scope === 'session') {
+      onSelectSession(modelId);
+    } else {
+      onSelectDefault(modelId);
+    }
+    onClose();
+  }, [scope, onSelectSession, onSelectDefault, onClose]);
+
+  const renderModel = ({ item }: { item: ModelInfo }) => {
+    const isSelected = item.id === selectedId;
+    const context = formatContextWindow(item.contextWindow);
+    const details = [item.provider, context && `${context} context`].filter(Boolean).join(' · ');
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.modelItem,
+          { backgroundColor: isSelected ? theme.surfaceVariant : theme.surface },
+          isSelected && { borderLeftColor: theme.primary, borderLeftWidth: 3 },
+        ]}
+        onPress={() => handleSelect(item.id)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.modelText}>
+          <Text style={[styles.modelName, { color: theme.text }]} numberOfLines={1}>
+            {item.name}
+          </Text>
+          {details ? (
+            <Text style={[styles.modelDetails, { color: theme.textMuted }]} numberOfLines={1}>
+              {details}
+            </Text>
+          ) : null}
+        </View>
+        {isSelected && <Text style={[styles.checkmark, { color: theme.primary }]}>✓</Text>}
+      </TouchableOpacity>
+    );
+  };
+
+  const fallbackLabel = scope === 'session'
+    ? `Use default${defaultModel ? ` (${getModelName(models, defaultModel)})` : ''}`
+    : 'Gateway default';
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={[styles.header, { borderBottomColor: theme.border }]}>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Model</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={[styles.closeText, { color: theme.primary }]}>Done</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.segmented, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+          {(['session', 'default'] as ModelScope[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.segment, scope === option && { backgroundColor: theme.primary }]}
+              onPress={() => setScope(option)}
+            >
+              <Text style={[styles.segmentText, { color: scope === option ? '#fff' : theme.text }]}>
+                {option === 'session' ? 'This Chat' : 'Default'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <FlatList
+          data={models}
+          renderItem={renderModel}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={theme.primary} />
+          }
+          ListHeaderComponent={
+            <TouchableOpacity
+              style={[
+                styles.modelItem,
+                { backgroundColor: selectedId === null ? theme.surfaceVariant : theme.surface },
+                selectedId === null && { borderLeftColor: theme.primary, borderLeftWidth: 3 },
+              ]}
+              onPress={() => handleSelect(null)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.modelText}>
+                <Text style={[styles.modelName, { color: theme.text }]} numberOfLines={1}>
+                  {fallbackLabel}
+                </Text>
+              </View>
+              {selectedId === null && <Text style={[styles.checkmark, { color: theme.primary }]}>✓</Text>}
+            </TouchableOpacity>
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Text style={[styles.emptyText, { color: theme.textMuted }]}>
+                No models available. Pull to refresh once connected.
+              </Text>
+            </View>
+          }
+        />
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: { fontSize: 20, fontWeight: '700' },
+  closeButton: { padding: 4 },
+  closeText: { fontSize: 16, fontWeight: '600' },
+  segmented: {
+    flexDirection: 'row',
+    margin: 12,
+    padding: 3,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  segment: { flex: 1, paddingVertical: 8, borderRadius: 8, alignItems: 'center' },
+  segmentText: { fontSize: 14, fontWeight: '600' },
+  listContent: { paddingHorizontal: 12 },
+  modelItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 4,
+  },
+  modelText: { flex: 1 },
+  modelName: { fontSize: 15, fontWeight: '500' },
+  modelDetails: { fontSize: 12, marginTop: 2 },
+  checkmark: { fontSize: 18, fontWeight: '700', marginLeft: 8 },
+  emptyContainer: { paddingVertical: 40, alignItems: 'center' },
+  emptyText: { fontSize: 14, textAlign: 'center' },
+});
@@ -0,0 +1,142 @@
+/**
+ * Outbox Message - a message queued while offline
+ *
+ * Rendered like a user bubble with:
+ * - Pending / sending / failed status
+ * - Attachment count
+ * - Retry, Edit and Cancel actions
+ */
+
+import React, { useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { useSettings } from '../stores/settings';
+import { spacing, radius } from '../theme/colors';
+import type { OutboxItem } from '../types';
+
+interface OutboxMessageProps {
+  item: OutboxItem;
+  onRetry: (id: string) => void;
+  onEdit: (id: string) => void;
+  onCancel: (id: string) => void;
+}
+
+export function OutboxMessage({ item, onRetry, onEdit, onCancel }: OutboxMessageProps) {
+  const { theme, textStyle } = useSettings();
+  const isSending = item.status === 'sending';
+  const isFailed = item.status === 'failed';
+
+  const statusLabel = isSending ? 'Sending...' : isFailed ? 'Failed to send' : 'Pending - will send when connected';
+
+  const handleAction = useCallback((action: (id: string) => void) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    action(item.id);
+  }, [item.id]);
+
+  return (
+    <Animated.View
+      entering={FadeIn.duration(200)}
+      exiting={FadeOut.duration(150)}
+      style={styles.container}
+    >
+      <View
+        style={[
+          styles.bubble,
+          { backgroundColor: theme.userBubble },
+          isFailed && [styles.failedBubble, { borderColor: theme.error }],
+        ]}
+      >
+        {item.text ? (
+          <Text style={[styles.text, { fontSize: textStyle.fontSize, lineHeight: textStyle.lineHeight }]}>
+            {item.text}
+          </Text>
+        ) : null}
+
+        {item.attachments.length > 0 && (
+          <Text style={styles.attachments}>
+            📎 {item.attachments.length} attachment{item.attachments.length === 1 ? '' : 's'}
+          </Text>
+        )}
+
+        <View style={styles.statusRow}>
+          {isSending ? (
+            <ActivityIndicator size="small" color="rgba(255,255,255,0.8)" />
+          ) : (
+            <Text style={styles.statusIcon}>{isFailed ? '⚠️' : '🕓'}</Text>
+          )}
+          <Text style={styles.statusText} numberOfLines={1}>
+            {statusLabel}
+          </Text>
+        </View>
+      </View>
+
+      {!isSending && (
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={() => handleAction(onRetry)} style={styles.actionButton}>
+            <Text style={[styles.actionText, { color: theme.primary }]}>Retry</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleAction(onEdit)} style={styles.actionButton}>
+            <Text style={[styles.actionText, { color: theme.primary }]}>Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleAction(onCancel)} style={styles.actionButton}>
+            <Text style={[styles.actionText, { color: theme.error }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    alignItems: 'flex-end',
+  },
+  bubble: {
+    maxWidth: '85%',
+    borderRadius: radius.lg,
+    borderBottomRightRadius: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm + 2,
+    opacity: 0.7,
+  },
+  failedBubble: {
+    borderWidth: 1,
+    opacity: 1,
+  },
+  text: {
+    color: '#fff',
+  },
+  attachments: {
+    color: 'rgba(255,255,255,0.8)',
+    fontSize: 12,
+    marginTop: spacing.xs,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  statusIcon: {
+    fontSize: 11,
+  },
+  statusText: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 11,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginTop: spacing.xs,
+  },
+  actionButton: {
+    paddingVertical: 2,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,260 @@
+/**
+ * Persona picker for the current session
+ *
+ * Features:
+ * - The 20 built-in personalities
+ * - User-defined personas (name, emoji, system prompt)
+ * - Long press a custom persona to delete it
+ */
+
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useSettings } from '../stores/settings';
+import { StorageHelpers } from '../stores/storage';
+import { getAllPersonas } from '../utils/personas';
+import type { Persona } from '../types';
+
+interface PersonaPickerProps {
+  visible: boolean;
+  onClose: () => void;
+  selectedId: string;
+  onSelect: (persona: Persona) => void;
+}
+
+export function PersonaPicker({ visible, onClose, selectedId, onSelect }: PersonaPickerProps) {
+  const { theme } = useSettings();
+  const [personas, setPersonas] = useState<Persona[]>(getAllPersonas);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [emoji, setEmoji] = useState('');
+  const [systemPrompt, setSystemPrompt] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setPersonas(getAllPersonas());
+      setIsCreating(false);
+    }
+  }, [visible]);
+
+  const canSave = name.trim().length > 0 && systemPrompt.trim().length > 0;
+
+  const handleSelect = useCallback((persona: Persona) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSelect(persona);
+    onClose();
+  }, [onSelect, onClose]);
+
+  const handleDelete = useCallback((persona: Persona) => {
+    if (!persona.custom) return;
+    Alert.alert('Delete Persona', `Delete "${persona.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          const next = StorageHelpers.getCustomPersonas().filter(p => p.id !== persona.id);
+          StorageHelpers.setCustomPersonas(next);
+          setPersonas(getAllPersonas());
+        },
+      },
+    ]);
+  }, []);
+
+  const handleSave = useCallback(() => {
+    if (!canSave) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+    const persona: Persona = {
+      id: `custom-${Date.now().toString(36)}`,
+      name: name.trim(),
+      emoji: emoji.trim() || '🤖',
+      systemPrompt: systemPrompt.trim(),
+      custom: true,
+    };
+    StorageHelpers.setCustomPersonas([...StorageHelpers.getCustomPersonas(), persona]);
+
+    setName('');
+    setEmoji('');
+    setSystemPrompt('');
+    handleSelect(persona);
+  }, [canSave, name, emoji, systemPrompt, handleSelect]);
+
+  const renderPersona = ({ item }: { item: Persona }) => {
+    const isSelected = item.id === selectedId;
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.personaItem,
+          { backgroundColor: isSelected ? theme.surfaceVariant : theme.surface },
+          isSelected && { borderLeftColor: theme.primary, borderLeftWidth: 3 },
+        ]}
+        onPress={() => handleSelect(item)}
+        onLongPress={() => handleDelete(item)}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.personaEmoji}>{item.emoji}</Text>
+        <View style={styles.personaText}>
+          <Text style={[styles.personaName, { color: theme.text }]} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text style={[styles.personaDescription, { color: theme.textMuted }]} numberOfLines={1}>
+            {item.description || item.systemPrompt}
+          </Text>
+        </View>
+        {isSelected && <Text style={[styles.checkmark, { color: theme.primary }]}>✓</Text>}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={[styles.header, { borderBottomColor: theme.border }]}>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>
+            {isCreating ? 'New Persona' : 'Persona'}
+          </Text>
+          <TouchableOpacity onPress={isCreating ? () => setIsCreating(false) : onClose} style={styles.closeButton}>
+            <Text style={[styles.closeText, { color: theme.primary }]}>{isCreating ? 'Back' : 'Done'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {isCreating ? (
+          <ScrollView contentContainerStyle={styles.form} keyboardShouldPersistTaps="handled">
+            <Text style={[styles.label, { color: theme.textSecondary }]}>Name</Text>
+            <TextInput
+              style={[styles.input, { color: theme.text, backgroundColor: theme.surface, borderColor: theme.border }]}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. Pirate"
+              placeholderTextColor={theme.textMuted}
+            />
+
+            <Text style={[styles.label, { color: theme.textSecondary }]}>Emoji</Text>
+            <TextInput
+              style={[styles.input, { color: theme.text, backgroundColor: theme.surface, borderColor: theme.border }]}
+              value={emoji}
+              onChangeText={setEmoji}
+              placeholder="🏴‍☠️"
+              placeholderTextColor={theme.textMuted}
+              maxLength={8}
+            />
+
+            <Text style={[styles.label, { color: theme.textSecondary }]}>System Prompt</Text>
+            <TextInput
+              style={[styles.input, styles.promptInput, { color: theme.text, backgroundColor: theme.surface, borderColor: theme.border }]}
+              value={systemPrompt}
+              onChangeText={setSystemPrompt}
+              placeholder="Describe how the assistant should behave..."
+              placeholderTextColor={theme.textMuted}
+              multiline
+              textAlignVertical="top"
+            />
+
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: theme.primary, opacity: canSave ? 1 : 0.5 }]}
+              onPress={handleSave}
+              disabled={!canSave}
+            >
+              <Text style={styles.primaryButtonText}>Save & Use</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        ) : (
+          <>
+            <FlatList
+              data={personas}
+              renderItem={renderPersona}
+              keyExtractor={(item) => item.id}
+              contentContainerStyle={styles.listContent}
+              ListFooterComponent={
+                <TouchableOpacity
+                  style={[styles.createButton, { borderColor: theme.border }]}
+                  onPress={() => setIsCreating(true)}
+                >
+                  <Text style={[styles.createText, { color: theme.primary }]}>+ Create Persona</Text>
+                </TouchableOpacity>
+              }
+            />
+
+            <View style={[styles.footer, { borderTopColor: theme.border }]}>
+              <Text style={[styles.footerText, { color: theme.textMuted }]}>Long press a custom persona to delete it</Text>
+            </View>
+          </>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: { fontSize: 20, fontWeight: '700' },
+  closeButton: { padding: 4 },
+  closeText: { fontSize: 16, fontWeight: '600' },
+  listContent: { padding: 12 },
+  personaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 4,
+  },
+  personaEmoji: { fontSize: 24, marginRight: 12 },
+  personaText: { flex: 1 },
+  personaName: { fontSize: 15, fontWeight: '500' },
+  personaDescription: { fontSize: 12, marginTop: 2 },
+  checkmark: { fontSize: 18, fontWeight: '700', marginLeft: 8 },
+  createButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+  },
+  createText: { fontSize: 15, fontWeight: '600' },
+  form: { padding: 16 },
+  label: { fontSize: 13, fontWeight: '600', marginBottom: 6, marginTop: 12 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  promptInput: { minHeight: 140 },
+  primaryButton: {
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  primaryButtonText: { color: '#fff', fontSize: 16, fontWeight: '600' },
+  footer: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderTopWidth: 1,
+    alignItems: 'center',
+  },
+  footerText: { fontSize: 12 },
+});
@@ -0,0 +1,156 @@
+/**
+ * PIN Pad
+ *
+ * Numeric keypad with entry dots. Calls onComplete once the PIN is full,
+ * then clears so a wrong PIN can be retried.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useSettings } from '../stores/settings';
+import { APP_PIN_LENGTH } from '../services/appLock';
+
+interface PinPadProps {
+  title: string;
+  error?: string | null;
+  onComplete: (pin: string) => void;
+  // Ignore digit keys (e.g. while locked out after wrong PINs)
+  disabled?: boolean;
+  // Extra key left of 0 (e.g. "Use Face ID")
+  secondaryLabel?: string;
+  onSecondary?: () => void;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+export function PinPad({ title, error, onComplete, disabled = false, secondaryLabel, onSecondary }: PinPadProps) {
+  const { theme } = useSettings();
+  const [pin, setPin] = useState('');
+
+  const handleDigit = (digit: string) => {
+    if (disabled || pin.length >= APP_PIN_LENGTH) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const next = pin + digit;
+    setPin(next);
+    if (next.length === APP_PIN_LENGTH) {
+      // Let the last dot fill before handing off
+      setTimeout(() => {
+        onComplete(next);
+        setPin('');
+      }, 100);
+    }
+  };
+
+  const handleDelete = () => setPin(prev => prev.slice(0, -1));
+
+  const renderKey = (digit: string) => (
+    <TouchableOpacity
+      key={digit}
+      style={[styles.key, { backgroundColor: theme.surface }, disabled && styles.keyDisabled]}
+      onPress={() => handleDigit(digit)}
+      disabled={disabled}
+      activeOpacity={0.6}
+      accessibilityLabel={digit}
+    >
+      <Text style={[styles.keyText, { color: theme.text }]}>{digit}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: theme.text }]}>{title}</Text>
+
+      <View style={styles.dots}>
+        {Array.from({ length: APP_PIN_LENGTH }, (_, i) => (
+          <View
+            key={i}
+            style={[
+              styles.dot,
+              { borderColor: error ? theme.error : theme.primary },
+              i < pin.length && { backgroundColor: theme.primary },
+            ]}
+          />
+        ))}
+      </View>
+
+      <Text style={[styles.error, { color: theme.error }]}>{error ?? ' '}</Text>
+
+      <View style={styles.grid}>
+        {KEYS.map(renderKey)}
+        {secondaryLabel && onSecondary ? (
+          <TouchableOpacity style={styles.key} onPress={onSecondary} activeOpacity={0.6}>
+            <Text style={[styles.secondaryText, { color: theme.primary }]} numberOfLines={2}>
+              {secondaryLabel}
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.key} />
+        )}
+        {renderKey('0')}
+        <TouchableOpacity
+          style={styles.key}
+          onPress={handleDelete}
+          disabled={pin.length === 0}
+          activeOpacity={0.6}
+          accessibilityLabel="Delete"
+        >
+          <Text style={[styles.keyText, { color: pin.length ? theme.text : theme.textMuted }]}>⌫</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 20,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+  },
+  error: {
+    fontSize: 14,
+    marginTop: 12,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 3 * 72 + 2 * 20,
+    gap: 20,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  keyDisabled: {
+    opacity: 0.4,
+  },
+  keyText: {
+    fontSize: 28,
+    fontWeight: '500',
+  },
+  secondaryText: {
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,103 @@
+/**
+ * PIN Setup Modal
+ *
+ * Asks for a new app PIN twice and stores it (hashed) once both entries match.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useSettings } from '../stores/settings';
+import { setAppPin } from '../services/appLock';
+import { PinPad } from './PinPad';
+
+interface PinSetupModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function PinSetupModal({ visible, onClose, onSaved }: PinSetupModalProps) {
+  const { theme } = useSettings();
+  const [firstPin, setFirstPin] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start over each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setFirstPin(null);
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleComplete = async (pin: string) => {
+    if (firstPin === null) {
+      setFirstPin(pin);
+      setError(null);
+      return;
+    }
+
+    if (pin !== firstPin) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setFirstPin(null);
+      setError("PINs didn't match. Please start again.");
+      return;
+    }
+
+    await setAppPin(pin);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onSaved();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={[styles.header, { borderBottomColor: theme.border }]}>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>App PIN</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={[styles.closeText, { color: theme.primary }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.content}>
+          <Text style={[styles.hint, { color: theme.textSecondary }]}>
+            Used to unlock the app when biometrics are unavailable or fail.
+          </Text>
+          <PinPad
+            key={firstPin === null ? 'enter' : 'confirm'}
+            title={firstPin === null ? 'Choose a PIN' : 'Confirm PIN'}
+            error={error}
+            onComplete={handleComplete}
+          />
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: { fontSize: 20, fontWeight: '700' },
+  closeButton: { padding: 4 },
+  closeText: { fontSize: 16, fontWeight: '600' },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  hint: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+});
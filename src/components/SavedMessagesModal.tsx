@@ -0,0 +1,421 @@
+/**
+ * Saved Messages Modal - Starred messages across all sessions
+ *
+ * Features:
+ * - Search by text, session title or tag
+ * - Filter by tag
+ * - Tap to jump to the message in its session
+ * - Long press to edit tags, copy or remove
+ */
+
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+  Alert,
+  ScrollView,
+  Keyboard,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Clipboard from 'expo-clipboard';
+import * as Haptics from 'expo-haptics';
+import { useSettings } from '../stores/settings';
+import { StorageHelpers } from '../stores/storage';
+import { filterSavedMessages, getSavedTags, parseTags } from '../utils/saved';
+import type { SavedMessage } from '../types';
+
+interface SavedMessagesModalProps {
+  visible: boolean;
+  onClose: () => void;
+  currentSessionKey: string;
+  onOpenMessage: (item: SavedMessage) => void;
+  // Called after items were removed (to refresh star markers)
+  onChange?: () => void;
+}
+
+export function SavedMessagesModal({
+  visible,
+  onClose,
+  currentSessionKey,
+  onOpenMessage,
+  onChange,
+}: SavedMessagesModalProps) {
+  const { theme } = useSettings();
+  const [items, setItems] = useState<SavedMessage[]>([]);
+  const [query, setQuery] = useState('');
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [editing, setEditing] = useState<SavedMessage | null>(null);
+  const [tagInput, setTagInput] = useState('');
+
+  // Reload when opened (items are starred from the chat)
+  useEffect(() => {
+    if (visible) {
+      setItems(StorageHelpers.getSavedMessages());
+      setQuery('');
+      setSelectedTag(null);
+      setEditing(null);
+    }
+  }, [visible]);
+
+  const tags = useMemo(() => getSavedTags(items), [items]);
+  const filtered = useMemo(() => filterSavedMessages(items, query, selectedTag), [items, query, selectedTag]);
+
+  const updateItems = useCallback((next: SavedMessage[]) => {
+    StorageHelpers.setSavedMessages(next);
+    setItems(next);
+    onChange?.();
+  }, [onChange]);
+
+  const handleOpen = useCallback((item: SavedMessage) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Keyboard.dismiss();
+    onOpenMessage(item);
+    onClose();
+  }, [onOpenMessage, onClose]);
+
+  const startEditingTags = useCallback((item: SavedMessage) => {
+    setTagInput(item.tags.join(', '));
+    setEditing(item);
+  }, []);
+
+  const handleSaveTags = useCallback(() => {
+    if (!editing) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    const nextTags = parseTags(tagInput);
+    updateItems(items.map(item => item.id === editing.id ? { ...item, tags: nextTags } : item));
+    if (selectedTag && !nextTags.includes(selectedTag) && !items.some(i => i.id !== editing.id && i.tags.includes(selectedTag))) {
+      setSelectedTag(null);
+    }
+    setEditing(null);
+  }, [editing, tagInput, items, selectedTag, updateItems]);
+
+  const handleLongPress = useCallback((item: SavedMessage) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert('Saved Message', undefined, [
+      { text: 'Edit Tags', onPress: () => startEditingTags(item) },
+      { text: 'Copy', onPress: () => { Clipboard.setStringAsync(item.text); } },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => updateItems(items.filter(i => i.id !== item.id)),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ], { cancelable: true });
+  }, [items, startEditingTags, updateItems]);
+
+  const renderItem = ({ item }: { item: SavedMessage }) => {
+    const isCurrent = item.sessionKey === currentSessionKey;
+    return (
+      <TouchableOpacity
+        style={[styles.item, { backgroundColor: theme.surface }]}
+        onPress={() => handleOpen(item)}
+        onLongPress={() => handleLongPress(item)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.itemHeader}>
+          <Text style={[styles.sessionTitle, { color: theme.text }]} numberOfLines={1}>
+            {item.role === 'assistant' ? '🦎' : '👤'} {item.sessionTitle}
+            {isCurrent && <Text style={{ color: theme.primary }}> (current)</Text>}
+          </Text>
+          <Text style={[styles.date, { color: theme.textMuted }]}>
+            {new Date(item.timestamp ?? item.savedAt).toLocaleDateString()}
+          </Text>
+        </View>
+        <Text style={[styles.itemText, { color: theme.textSecondary }]} numberOfLines={4}>
+          {item.text}
+        </Text>
+        {item.tags.length > 0 && (
+          <View style={styles.itemTags}>
+            {item.tags.map(tag => (
+              <Text key={tag} style={[styles.itemTag, { color: theme.primary, backgroundColor: theme.surfaceVariant }]}>
+                #{tag}
+              </Text>
+            ))}
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={() => (editing ? setEditing(null) : onClose())}
+    >
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.border }]}>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>{editing ? 'Edit Tags' : 'Saved'}</Text>
+          <TouchableOpacity onPress={() => (editing ? setEditing(null) : onClose())} style={styles.closeButton}>
+            <Text style={[styles.closeText, { color: theme.primary }]}>{editing ? 'Back' : 'Done'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {editing ? (
+          <View style={styles.form}>
+            <Text style={[styles.preview, { color: theme.textSecondary }]} numberOfLines={3}>
+              {editing.text}
+            </Text>
+            <TextInput
+              style={[styles.input, { color: theme.text, backgroundColor: theme.surface, borderColor: theme.border }]}
+              value={tagInput}
+              onChangeText={setTagInput}
+              placeholder="e.g. recipes, work"
+              placeholderTextColor={theme.textMuted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoFocus
+              returnKeyType="done"
+              onSubmitEditing={handleSaveTags}
+            />
+            {tags.length > 0 && (
+              <View style={styles.tagSuggestions}>
+                {tags.filter(tag => !parseTags(tagInput).includes(tag)).map(tag => (
+                  <TouchableOpacity
+                    key={tag}
+                    style={[styles.tagChip, { borderColor: theme.border, backgroundColor: theme.surface }]}
+                    onPress={() => setTagInput(prev => (prev.trim() ? `${prev.trim().replace(/,$/, '')}, ${tag}` : tag))}
+                  >
+                    <Text style={[styles.tagChipText, { color: theme.primary }]}>#{tag}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+            <TouchableOpacity style={[styles.primaryButton, { backgroundColor: theme.primary }]} onPress={handleSaveTags}>
+              <Text style={styles.primaryButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            {/* Search Input */}
+            <View style={[styles.searchContainer, { backgroundColor: theme.surface, borderColor: theme.border }]}>
+              <Text style={styles.searchIcon}>🔍</Text>
+              <TextInput
+                style={[styles.searchInput, { color: theme.text }]}
+                placeholder="Search saved messages..."
+                placeholderTextColor={theme.textMuted}
+                value={query}
+                onChangeText={setQuery}
+                autoCapitalize="none"
+                autoCorrect={false}
+                returnKeyType="search"
+              />
+              {query.length > 0 && (
+                <TouchableOpacity onPress={() => setQuery('')}>
+                  <Text style={[styles.clearButton, { color: theme.textMuted }]}>✕</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {/* Tag filter */}
+            {tags.length > 0 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.tagBar}
+                contentContainerStyle={styles.tagBarContent}
+              >
+                {[null, ...tags].map(tag => {
+                  const isSelected = selectedTag === tag;
+                  return (
+                    <TouchableOpacity
+                      key={tag ?? 'all'}
+                      style={[
+                        styles.tagChip,
+                        { borderColor: isSelected ? theme.primary : theme.border, backgroundColor: isSelected ? theme.primary : theme.surface },
+                      ]}
+                      onPress={() => setSelectedTag(tag)}
+                    >
+                      <Text style={[styles.tagChipText, { color: isSelected ? '#fff' : theme.text }]}>
+                        {tag ? `#${tag}` : 'All'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+
+            <FlatList
+              data={filtered}
+              renderItem={renderItem}
+              keyExtractor={(item) => item.id}
+              contentContainerStyle={styles.list}
+              keyboardShouldPersistTaps="handled"
+              ListEmptyComponent={
+                <View style={styles.emptyState}>
+                  <Text style={{ fontSize: 48 }}>⭐</Text>
+                  <Text style={[styles.emptyText, { color: theme.textMuted }]}>
+                    {items.length === 0 ? 'No saved messages yet' : 'No saved messages match'}
+                  </Text>
+                  {items.length === 0 && (
+                    <Text style={[styles.emptyHint, { color: theme.textMuted }]}>
+                      Long press a message and choose Star to keep it here
+                    </Text>
+                  )}
+                </View>
+              }
+            />
+          </>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  closeText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 12,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  clearButton: {
+    padding: 4,
+    fontSize: 16,
+  },
+  tagBar: {
+    flexGrow: 0,
+  },
+  tagBarContent: {
+    paddingHorizontal: 12,
+    paddingBottom: 8,
+    gap: 8,
+  },
+  tagChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  tagChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  list: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+    flexGrow: 1,
+  },
+  item: {
+    padding: 12,
+    borderRadius: 10,
+    marginTop: 8,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+    gap: 8,
+  },
+  sessionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    flex: 1,
+  },
+  date: {
+    fontSize: 11,
+  },
+  itemText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  itemTags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  itemTag: {
+    fontSize: 12,
+    fontWeight: '500',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  form: {
+    padding: 16,
+    gap: 12,
+  },
+  preview: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  tagSuggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  primaryButton: {
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    gap: 8,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  emptyHint: {
+    fontSize: 13,
+    textAlign: 'center',
+  },
+});
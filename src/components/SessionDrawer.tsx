@@ -2,7 +2,7 @@
  * Session drawer/sidebar for session management
  */
 
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import {
   View,
   Text,
@@ -12,6 +12,8 @@ import {
   TextInput,
   Modal,
   RefreshControl,
+  Alert,
+  type AlertButton,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
@@ -19,6 +21,7 @@ import { useSettings } from '../stores/settings';
 import { StorageHelpers } from '../stores/storage';
 import { UnreadBadge } from './UnreadBadge';
 import { getCachedTitle } from '../services/smartTitles';
+import { MUTE_DURATIONS, describeMute } from '../utils/notificationRules';
 import type { SessionMeta } from '../types';
 
 interface SessionDrawerProps {
@@ -29,7 +32,11 @@ interface SessionDrawerProps {
   onSelectSession: (sessionKey: string) => void;
   onNewSession: () => void;
   onRefresh: () => Promise<void>;
+  onRenameSession: (sessionKey: string, label: string) => Promise<void>;
+  onArchiveSession: (sessionKey: string, archived: boolean) => Promise<void>;
+  onDeleteSession: (sessionKey: string) => Promise<void>;
   unreadCounts?: Record<string, number>;
+  onMarkAllRead?: () => void;
 }
 
 export function SessionDrawer({
@@ -40,14 +47,34 @@ export function SessionDrawer({
   onSelectSession,
   onNewSession,
   onRefresh,
+  onRenameSession,
+  onArchiveSession,
+  onDeleteSession,
   unreadCounts = {},
+  onMarkAllRead,
 }: SessionDrawerProps) {
   const { theme } = useSettings();
   const [searchQuery, setSearchQuery] = useState('');
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [pinnedSessions, setPinnedSessions] = useState(() => StorageHelpers.getPinnedSessions());
+  const [branches, setBranches] = useState(() => StorageHelpers.getSessionBranches());
+  const [drafts, setDrafts] = useState(() => StorageHelpers.getDrafts());
+  const [mutedSessions, setMutedSessions] = useState(() => StorageHelpers.getMutedSessions());
+  const [showArchived, setShowArchived] = useState(false);
+  const [renameTarget, setRenameTarget] = useState<SessionMeta | null>(null);
+  const [renameText, setRenameText] = useState('');
 
-  const filteredSessions = useMemo(() => {
+  // Pins, branches, drafts and mutes are stored per gateway profile, so re-read them whenever the drawer opens
+  useEffect(() => {
+    if (visible) {
+      setDrafts(StorageHelpers.getDrafts());
+      setMutedSessions(StorageHelpers.getMutedSessions());
+      setPinnedSessions(StorageHelpers.getPinnedSessions());
+      setBranches(StorageHelpers.getSessionBranches());
+    }
+  }, [visible]);
+
+  const sortedSessions = useMemo(() => {
     let filtered = sessions;
 
     if (searchQuery.trim()) {
@@ -72,6 +99,15 @@ export function SessionDrawer({
     });
   }, [sessions, searchQuery, pinnedSessions]);
 
+  const activeSessions = useMemo(
+    () => sortedSessions.filter(s => !s.archived),
+    [sortedSessions],
+  );
+  const archivedList = useMemo(
+    () => sortedSessions.filter(s => s.archived),
+    [sortedSessions],
+  );
+
   const handleRefresh = useCallback(async () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setIsRefreshing(true);
@@ -85,12 +121,112 @@ export function SessionDrawer({
     onClose();
   }, [onSelectSession, onClose]);
 
+  const hasUnread = Object.values(unreadCounts).some(count => count > 0);
+
+  const handleMarkAllRead = useCallback(() => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onMarkAllRead?.();
+  }, [onMarkAllRead]);
+
   const handleTogglePin = useCallback((sessionKey: string) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     const next = StorageHelpers.togglePinnedSession(sessionKey);
     setPinnedSessions(next);
   }, []);
 
+  const showActionError = (action: string, err: unknown) => {
+    Alert.alert(`Couldn't ${action} session`, err instanceof Error ? err.message : String(err));
+  };
+
+  const handleRenameSubmit = useCallback(async () => {
+    if (!renameTarget) return;
+    const key = renameTarget.key;
+    setRenameTarget(null);
+    try {
+      await onRenameSession(key, renameText);
+    } catch (err) {
+      showActionError('rename', err);
+    }
+  }, [renameTarget, renameText, onRenameSession]);
+
+  const handleArchive = useCallback(async (sessionKey: string, archived: boolean) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    try {
+      await onArchiveSession(sessionKey, archived);
+      setPinnedSessions(StorageHelpers.getPinnedSessions());
+    } catch (err) {
+      showActionError(archived ? 'archive' : 'unarchive', err);
+    }
+  }, [onArchiveSession]);
+
+  const handleDelete = useCallback((session: SessionMeta, title: string) => {
+    Alert.alert(
+      'Delete Session',
+      `Delete "${title}"? This removes its history from the gateway and can't be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+            try {
+              await onDeleteSession(session.key);
+              setPinnedSessions(StorageHelpers.getPinnedSessions());
+            } catch (err) {
+              showActionError('delete', err);
+            }
+          },
+        },
+      ],
+    );
+  }, [onDeleteSession]);
+
+  const handleMute = useCallback((sessionKey: string, title: string) => {
+    const options: AlertButton[] = MUTE_DURATIONS.map(({ label, ms }) => ({
+      text: label,
+      onPress: () => {
+        StorageHelpers.muteSession(sessionKey, ms === null ? null : Date.now() + ms);
+        setMutedSessions(StorageHelpers.getMutedSessions());
+      },
+    }));
+    options.push({ text: 'Cancel', style: 'cancel' });
+
+    Alert.alert(`Mute ${title}`, 'Notifications from this session will be silenced.', options, { cancelable: true });
+  }, []);
+
+  const handleUnmute = useCallback((sessionKey: string) => {
+    StorageHelpers.unmuteSession(sessionKey);
+    setMutedSessions(StorageHelpers.getMutedSessions());
+  }, []);
+
+  const handleSessionActions = useCallback((session: SessionMeta, title: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const isPinned = pinnedSessions.includes(session.key);
+    const isArchived = session.archived === true;
+    const muted = StorageHelpers.isSessionMuted(session.key);
+
+    const options: AlertButton[] = [];
+    if (!isArchived) {
+      options.push({ text: isPinned ? 'Unpin' : 'Pin', onPress: () => handleTogglePin(session.key) });
+    }
+    options.push({
+      text: 'Rename',
+      onPress: () => {
+        setRenameText(title);
+        setRenameTarget(session);
+      },
+    });
+    options.push(muted
+      ? { text: 'Unmute', onPress: () => handleUnmute(session.key) }
+      : { text: 'Mute…', onPress: () => handleMute(session.key, title) });
+    options.push({ text: isArchived ? 'Unarchive' : 'Archive', onPress: () => handleArchive(session.key, !isArchived) });
+    options.push({ text: 'Delete', style: 'destructive', onPress: () => handleDelete(session, title) });
+    options.push({ text: 'Cancel', style: 'cancel' });
+
+    Alert.alert(title, undefined, options, { cancelable: true });
+  }, [pinnedSessions, handleTogglePin, handleMute, handleUnmute, handleArchive, handleDelete]);
+
   const handleNewSession = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     onNewSession();
@@ -102,6 +238,11 @@ export function SessionDrawer({
     return smartTitle || session.label || session.title || session.derivedTitle || session.friendlyId;
   };
 
+  const getParentTitle = (parentKey: string) => {
+    const parent = sessions.find(s => s.key === parentKey);
+    return parent ? getSessionTitle(parent) : getCachedTitle(parentKey) || parentKey;
+  };
+
   const getSessionIcon = (session: SessionMeta) => {
     switch (session.kind) {
       case 'channel': return '💬';
@@ -115,6 +256,13 @@ export function SessionDrawer({
     const isSelected = item.key === currentSessionKey;
     const isPinned = pinnedSessions.includes(item.key);
     const unreadCount = unreadCounts[item.key] || 0;
+    const branch = branches[item.key];
+    const title = getSessionTitle(item);
+    const draft = drafts[item.key];
+    const muted = item.key in mutedSessions && StorageHelpers.isSessionMuted(item.key);
+    const draftAttachments = draft?.attachments?.length ?? 0;
+    const draftPreview = draft && (draft.text.trim().replace(/\s+/g, ' ') ||
+      (draftAttachments > 0 ? `📎 ${draftAttachments} attachment${draftAttachments === 1 ? '' : 's'}` : ''));
 
     return (
       <TouchableOpacity
@@ -124,22 +272,41 @@ export function SessionDrawer({
           isSelected && { borderLeftColor: theme.primary, borderLeftWidth: 3 },
         ]}
         onPress={() => handleSelectSession(item.key)}
-        onLongPress={() => handleTogglePin(item.key)}
+        onLongPress={() => handleSessionActions(item, title)}
         activeOpacity={0.7}
       >
         <View style={styles.sessionContent}>
           <Text style={styles.sessionIcon}>{getSessionIcon(item)}</Text>
           <View style={styles.sessionText}>
             <Text style={[styles.sessionTitle, { color: theme.text }]} numberOfLines={1}>
-              {getSessionTitle(item)}
+              {title}
             </Text>
             {item.agent && item.agent !== 'main' && (
               <Text style={[styles.sessionSubtitle, { color: theme.textMuted }]}>Agent: {item.agent}</Text>
             )}
+            {branch && (
+              <Text style={[styles.sessionSubtitle, { color: theme.textMuted }]} numberOfLines={1}>
+                ⑂ Branched from {getParentTitle(branch.parentKey)}
+              </Text>
+            )}
+            {draftPreview ? (
+              <Text style={[styles.sessionSubtitle, { color: theme.textMuted }]} numberOfLines={1}>
+                <Text style={[styles.draftLabel, { color: theme.error }]}>Draft: </Text>
+                {draftPreview}
+              </Text>
+            ) : null}
           </View>
         </View>
         <View style={styles.sessionRight}>
           {unreadCount > 0 && !isSelected && <UnreadBadge count={unreadCount} size="small" />}
+          {muted && (
+            <Text
+              style={styles.pinIcon}
+              accessibilityLabel={describeMute(mutedSessions[item.key])}
+            >
+              🔕
+            </Text>
+          )}
           {isPinned && <Text style={styles.pinIcon}>📌</Text>}
         </View>
       </TouchableOpacity>
@@ -151,9 +318,16 @@ export function SessionDrawer({
       <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
         <View style={[styles.header, { borderBottomColor: theme.border }]}> 
           <Text style={[styles.headerTitle, { color: theme.text }]}>Sessions</Text>
-          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
-            <Text style={[styles.closeText, { color: theme.primary }]}>Done</Text>
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            {onMarkAllRead && hasUnread && (
+              <TouchableOpacity onPress={handleMarkAllRead} style={styles.closeButton}>
+                <Text style={[styles.markReadText, { color: theme.primary }]}>Mark all read</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={[styles.closeText, { color: theme.primary }]}>Done</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         <View style={[styles.searchContainer, { backgroundColor: theme.surface, borderColor: theme.border }]}>
@@ -179,7 +353,7 @@ export function SessionDrawer({
         </TouchableOpacity>
 
         <FlatList
-          data={filteredSessions}
+          data={activeSessions}
           renderItem={renderSessionItem}
           keyExtractor={(item) => item.key}
           contentContainerStyle={styles.listContent}
@@ -191,17 +365,70 @@ export function SessionDrawer({
             />
           }
           ListEmptyComponent={
-            <View style={styles.emptyContainer}>
-              <Text style={[styles.emptyText, { color: theme.textMuted }]}> 
-                {searchQuery ? 'No sessions found' : 'No sessions yet'}
-              </Text>
-            </View>
+            archivedList.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <Text style={[styles.emptyText, { color: theme.textMuted }]}> 
+                  {searchQuery ? 'No sessions found' : 'No sessions yet'}
+                </Text>
+              </View>
+            ) : null
+          }
+          ListFooterComponent={
+            archivedList.length > 0 ? (
+              <View style={styles.archivedSection}>
+                <TouchableOpacity
+                  style={styles.archivedHeader}
+                  onPress={() => setShowArchived(prev => !prev)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.archivedTitle, { color: theme.textSecondary }]}>
+                    {showArchived ? '▾' : '▸'} Archived ({archivedList.length})
+                  </Text>
+                </TouchableOpacity>
+                {showArchived && archivedList.map(session => (
+                  <React.Fragment key={session.key}>
+                    {renderSessionItem({ item: session })}
+                  </React.Fragment>
+                ))}
+              </View>
+            ) : null
           }
         />
 
         <View style={[styles.footer, { borderTopColor: theme.border }]}> 
-          <Text style={[styles.footerText, { color: theme.textMuted }]}>Long press to pin/unpin sessions</Text>
+          <Text style={[styles.footerText, { color: theme.textMuted }]}>Long press for pin, rename, mute, archive and delete</Text>
         </View>
+
+        <Modal visible={renameTarget !== null} transparent animationType="fade" onRequestClose={() => setRenameTarget(null)}>
+          <View style={styles.renameOverlay}>
+            <View style={[styles.renameDialog, { backgroundColor: theme.surface }]}>
+              <Text style={[styles.renameTitle, { color: theme.text }]}>Rename Session</Text>
+              <TextInput
+                style={[styles.renameInput, { color: theme.text, borderColor: theme.border, backgroundColor: theme.background }]}
+                value={renameText}
+                onChangeText={setRenameText}
+                placeholder="Session name"
+                placeholderTextColor={theme.textMuted}
+                autoFocus
+                selectTextOnFocus
+                returnKeyType="done"
+                onSubmitEditing={handleRenameSubmit}
+              />
+              <View style={styles.renameActions}>
+                <TouchableOpacity onPress={() => setRenameTarget(null)} style={styles.renameButton}>
+                  <Text style={[styles.renameButtonText, { color: theme.textMuted }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleRenameSubmit}
+                  disabled={!renameText.trim()}
+                  style={styles.renameButton}
+                >
+                  <Text style={[styles.renameButtonText, { color: theme.primary, opacity: renameText.trim() ? 1 : 0.5 }]}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        </Modal>
       </SafeAreaView>
     </Modal>
   );
@@ -218,8 +445,10 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
   },
   headerTitle: { fontSize: 20, fontWeight: '700' },
+  headerActions: { flexDirection: 'row', alignItems: 'center', gap: 12 },
   closeButton: { padding: 4 },
   closeText: { fontSize: 16, fontWeight: '600' },
+  markReadText: { fontSize: 14, fontWeight: '500' },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -253,8 +482,12 @@ const styles = StyleSheet.create({
   sessionText: { flex: 1 },
   sessionTitle: { fontSize: 15, fontWeight: '500' },
   sessionSubtitle: { fontSize: 12, marginTop: 2 },
+  draftLabel: { fontWeight: '600' },
   pinIcon: { fontSize: 14 },
   sessionRight: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  archivedSection: { marginTop: 8 },
+  archivedHeader: { paddingVertical: 10, paddingHorizontal: 4 },
+  archivedTitle: { fontSize: 13, fontWeight: '600', textTransform: 'uppercase', letterSpacing: 0.5 },
   emptyContainer: { paddingVertical: 40, alignItems: 'center' },
   emptyText: { fontSize: 14 },
   footer: {
@@ -264,4 +497,22 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   footerText: { fontSize: 12 },
+  renameOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  renameDialog: { borderRadius: 14, padding: 16 },
+  renameTitle: { fontSize: 17, fontWeight: '600', marginBottom: 12 },
+  renameInput: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  renameActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 16, marginTop: 16 },
+  renameButton: { paddingVertical: 4, paddingHorizontal: 4 },
+  renameButtonText: { fontSize: 16, fontWeight: '600' },
 });
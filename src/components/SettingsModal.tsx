@@ -5,7 +5,9 @@
  * - Theme picker with visual previews
  * - Accent color picker (colored circles)
  * - Text size selector
- * - Connection info
+ * - Notification rules (sound, vibration, quiet hours, session kinds, keywords)
+ * - App lock (biometrics with PIN fallback, auto-lock timeout)
+ * - Connection info and gateway profile switcher
  * - About section
  */
 
@@ -20,13 +22,19 @@ import {
   Alert,
   Linking,
   Switch,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
-import { useSettings, type ThemeMode, type TextSize, type AccentColorName } from '../stores/settings';
+import { useSettings, type ThemeMode, type TextSize, type AccentColorName, type ImageFormat } from '../stores/settings';
+import { IMAGE_MAX_DIMENSIONS, AUTO_LOCK_TIMEOUTS } from '../stores/storage';
 import { themeOptions, accentColorOptions, accentColors } from '../theme/colors';
 import { useNotifications } from '../services/notifications';
 import { useBiometricAuth, getBiometricLabel, getBiometricIcon } from '../services/biometrics';
+import { hasAppPin, clearAppPin } from '../services/appLock';
+import { SESSION_KINDS, formatMinutes } from '../utils/notificationRules';
+import { PinSetupModal } from './PinSetupModal';
+import type { SessionKind } from '../types';
 
 interface SettingsModalProps {
   visible: boolean;
@@ -44,6 +52,21 @@ const TEXT_SIZE_OPTIONS: { value: TextSize; label: string; size: number }[] = [
   { value: 'xlarge', label: 'XL', size: 20 },
 ];
 
+// Labels for the auto-lock timeouts (seconds)
+const AUTO_LOCK_LABELS: Record<(typeof AUTO_LOCK_TIMEOUTS)[number], string> = {
+  0: 'Now',
+  60: '1m',
+  300: '5m',
+  900: '15m',
+  3600: '1h',
+};
+
+// Image format options for attachments
+const IMAGE_FORMAT_OPTIONS: { value: ImageFormat; label: string }[] = [
+  { value: 'jpeg', label: 'JPEG' },
+  { value: 'webp', label: 'WebP' },
+];
+
 /**
  * Theme Preview Card - Shows a mini preview of the theme
  */
@@ -220,6 +243,36 @@ function ToggleRow({
   );
 }
 
+/**
+ * Time Stepper - adjusts a time of day in 30 minute steps
+ */
+function TimeStepper({
+  label,
+  minutes,
+  onChange,
+  theme,
+}: {
+  label: string;
+  minutes: number;
+  onChange: (minutes: number) => void;
+  theme: ReturnType<typeof useSettings>['theme'];
+}) {
+  const step = (delta: number) => onChange((minutes + delta + 24 * 60) % (24 * 60));
+  
+  return (
+    <View style={styles.timeRow}>
+      <Text style={[styles.timeLabel, { color: theme.textSecondary }]}>{label}</Text>
+      <TouchableOpacity style={[styles.timeButton, { backgroundColor: theme.surfaceVariant }]} onPress={() => step(-30)}>
+        <Text style={[styles.timeButtonText, { color: theme.text }]}>−</Text>
+      </TouchableOpacity>
+      <Text style={[styles.timeValue, { color: theme.text }]}>{formatMinutes(minutes)}</Text>
+      <TouchableOpacity style={[styles.timeButton, { backgroundColor: theme.surfaceVariant }]} onPress={() => step(30)}>
+        <Text style={[styles.timeButtonText, { color: theme.text }]}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
 export function SettingsModal({
   visible,
   onClose,
@@ -240,8 +293,19 @@ export function SettingsModal({
     setSoundEffectsEnabled,
     notificationsEnabled,
     setNotificationsEnabled,
+    notificationPreferences,
+    updateNotificationPreferences,
+    imageMaxDimension,
+    setImageMaxDimension,
+    imageFormat,
+    setImageFormat,
     biometricLockEnabled,
     setBiometricLockEnabled,
+    autoLockTimeout,
+    setAutoLockTimeout,
+    profiles,
+    activeProfileId,
+    switchProfile,
   } = useSettings();
   
   // Notifications hook
@@ -268,6 +332,18 @@ export function SettingsModal({
     setTextSize(size);
   }, [setTextSize]);
   
+  // Handle image max dimension change
+  const handleImageMaxDimensionChange = useCallback((dimension: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setImageMaxDimension(dimension);
+  }, [setImageMaxDimension]);
+  
+  // Handle image format change
+  const handleImageFormatChange = useCallback((format: ImageFormat) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setImageFormat(format);
+  }, [setImageFormat]);
+  
   // Handle disconnect
   const handleDisconnect = useCallback(() => {
     Alert.alert(
@@ -288,6 +364,21 @@ export function SettingsModal({
     );
   }, [onDisconnect, onClose]);
   
+  // Handle profile switch
+  const handleProfileSwitch = useCallback((profileId: string) => {
+    if (profileId === activeProfileId) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    switchProfile(profileId);
+    onClose();
+  }, [activeProfileId, switchProfile, onClose]);
+  
+  // Add a gateway from the connect screen (saved profiles are kept)
+  const handleAddProfile = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onDisconnect();
+    onClose();
+  }, [onDisconnect, onClose]);
+  
   // Handle link press
   const handleLinkPress = useCallback((url: string) => {
     Linking.openURL(url);
@@ -299,6 +390,24 @@ export function SettingsModal({
     setSoundEffectsEnabled(enabled);
   }, [setSoundEffectsEnabled]);
   
+  // Keyword triggers are edited as comma-separated text
+  const [keywordsText, setKeywordsText] = useState(() => notificationPreferences.keywords.join(', '));
+  
+  const handleKeywordsSubmit = useCallback(() => {
+    const keywords = [...new Set(keywordsText.split(',').map(k => k.trim()).filter(Boolean))];
+    updateNotificationPreferences({ keywords });
+    setKeywordsText(keywords.join(', '));
+  }, [keywordsText, updateNotificationPreferences]);
+  
+  // Toggle a session kind in the notification filter (none selected: all kinds)
+  const handleKindToggle = useCallback((kind: SessionKind) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const { kinds } = notificationPreferences;
+    updateNotificationPreferences({
+      kinds: kinds.includes(kind) ? kinds.filter(k => k !== kind) : [...kinds, kind],
+    });
+  }, [notificationPreferences, updateNotificationPreferences]);
+  
   // Handle notifications toggle
   const handleNotificationsToggle = useCallback(async (enabled: boolean) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -318,21 +427,37 @@ export function SettingsModal({
     setNotificationsEnabled(enabled);
   }, [hasNotificationPermission, requestNotificationPermission, setNotificationsEnabled]);
   
+  // PIN setup (required before the lock can be turned on)
+  const [showPinSetup, setShowPinSetup] = useState(false);
+  
   // Handle biometric lock toggle
-  const handleBiometricToggle = useCallback((enabled: boolean) => {
+  const handleBiometricToggle = useCallback(async (enabled: boolean) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     
-    if (!biometricInfo.isAvailable) {
-      Alert.alert(
-        'Biometrics Not Available',
-        'Your device does not have biometric authentication set up.',
-        [{ text: 'OK' }]
-      );
+    if (!enabled) {
+      setBiometricLockEnabled(false);
+      clearAppPin().catch(() => {});
+      return;
+    }
+    
+    if (!(await hasAppPin().catch(() => false))) {
+      setShowPinSetup(true);
       return;
     }
     
-    setBiometricLockEnabled(enabled);
-  }, [biometricInfo.isAvailable, setBiometricLockEnabled]);
+    setBiometricLockEnabled(true);
+  }, [setBiometricLockEnabled]);
+  
+  const handlePinSaved = useCallback(() => {
+    setShowPinSetup(false);
+    setBiometricLockEnabled(true);
+  }, [setBiometricLockEnabled]);
+  
+  // Handle auto-lock timeout change
+  const handleAutoLockChange = useCallback((seconds: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setAutoLockTimeout(seconds);
+  }, [setAutoLockTimeout]);
   
   return (
     <Modal
@@ -445,6 +570,158 @@ export function SettingsModal({
                 onValueChange={handleNotificationsToggle}
                 theme={theme}
               />
+              
+              {notificationsEnabled && (
+                <>
+                  <View style={[styles.toggleDivider, { backgroundColor: theme.border }]} />
+                  
+                  <ToggleRow
+                    label="Notification Sound"
+                    icon="🎵"
+                    value={notificationPreferences.soundEnabled}
+                    onValueChange={(soundEnabled) => updateNotificationPreferences({ soundEnabled })}
+                    theme={theme}
+                  />
+                  
+                  <View style={[styles.toggleDivider, { backgroundColor: theme.border }]} />
+                  
+                  <ToggleRow
+                    label="Vibration"
+                    icon="📳"
+                    value={notificationPreferences.vibrationEnabled}
+                    onValueChange={(vibrationEnabled) => updateNotificationPreferences({ vibrationEnabled })}
+                    theme={theme}
+                  />
+                  
+                  <View style={[styles.toggleDivider, { backgroundColor: theme.border }]} />
+                  
+                  <ToggleRow
+                    label="Quiet Hours"
+                    description="No notifications during this time every day"
+                    icon="🌙"
+                    value={notificationPreferences.quietHours.enabled}
+                    onValueChange={(enabled) => updateNotificationPreferences({
+                      quietHours: { ...notificationPreferences.quietHours, enabled },
+                    })}
+                    theme={theme}
+                  />
+                  {notificationPreferences.quietHours.enabled && (
+                    <>
+                      <TimeStepper
+                        label="From"
+                        minutes={notificationPreferences.quietHours.start}
+                        onChange={(start) => updateNotificationPreferences({
+                          quietHours: { ...notificationPreferences.quietHours, start },
+                        })}
+                        theme={theme}
+                      />
+                      <TimeStepper
+                        label="To"
+                        minutes={notificationPreferences.quietHours.end}
+                        onChange={(end) => updateNotificationPreferences({
+                          quietHours: { ...notificationPreferences.quietHours, end },
+                        })}
+                        theme={theme}
+                      />
+                    </>
+                  )}
+                  
+                  <View style={[styles.toggleDivider, { backgroundColor: theme.border }]} />
+                  
+                  <Text style={[styles.cardLabel, { color: theme.text }]}>Notify For</Text>
+                  <View style={styles.textSizeControl}>
+                    {SESSION_KINDS.map(({ value, label }) => {
+                      const selected = notificationPreferences.kinds.includes(value);
+                      return (
+                        <TouchableOpacity
+                          key={value}
+                          style={[
+                            styles.textSizeOption,
+                            { backgroundColor: theme.surfaceVariant },
+                            selected && { backgroundColor: theme.primary },
+                          ]}
+                          onPress={() => handleKindToggle(value)}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={[styles.textSizeLabel, { color: selected ? '#fff' : theme.text }]}>
+                            {label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <Text style={[styles.disabledHint, { color: theme.textMuted }]}>
+                    {notificationPreferences.kinds.length === 0 ? 'All sessions notify.' : 'Only the selected kinds of sessions notify.'}
+                  </Text>
+                  
+                  <Text style={[styles.cardLabel, styles.keywordsLabel, { color: theme.text }]}>Keywords</Text>
+                  <TextInput
+                    style={[styles.keywordsInput, { color: theme.text, borderColor: theme.border, backgroundColor: theme.background }]}
+                    value={keywordsText}
+                    onChangeText={setKeywordsText}
+                    onEndEditing={handleKeywordsSubmit}
+                    onSubmitEditing={handleKeywordsSubmit}
+                    placeholder="urgent, deploy, @me"
+                    placeholderTextColor={theme.textMuted}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    returnKeyType="done"
+                  />
+                  <Text style={[styles.disabledHint, { color: theme.textMuted }]}>
+                    Messages containing a keyword always notify, even in muted sessions or quiet hours. Long press a session to mute it.
+                  </Text>
+                </>
+              )}
+            </SettingsCard>
+          </View>
+          
+          {/* ATTACHMENTS SECTION */}
+          <View style={styles.section}>
+            <SectionHeader title="ATTACHMENTS" theme={theme} />
+            
+            <SettingsCard theme={theme}>
+              <Text style={[styles.cardLabel, { color: theme.text }]}>Max Image Size</Text>
+              <View style={styles.textSizeControl}>
+                {IMAGE_MAX_DIMENSIONS.map((dimension) => (
+                  <TouchableOpacity
+                    key={dimension}
+                    style={[
+                      styles.textSizeOption,
+                      { backgroundColor: theme.surfaceVariant },
+                      imageMaxDimension === dimension && { backgroundColor: theme.primary },
+                    ]}
+                    onPress={() => handleImageMaxDimensionChange(dimension)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.textSizeLabel, { color: imageMaxDimension === dimension ? '#fff' : theme.text }]}>
+                      {dimension}px
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              <Text style={[styles.cardLabel, { color: theme.text }]}>Image Format</Text>
+              <View style={styles.textSizeControl}>
+                {IMAGE_FORMAT_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.textSizeOption,
+                      { backgroundColor: theme.surfaceVariant },
+                      imageFormat === option.value && { backgroundColor: theme.primary },
+                    ]}
+                    onPress={() => handleImageFormatChange(option.value)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.textSizeLabel, { color: imageFormat === option.value ? '#fff' : theme.text }]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={[styles.disabledHint, { color: theme.textMuted }]}>
+                Photos are resized to fit and re-encoded before sending. Location and camera metadata are removed.
+              </Text>
             </SettingsCard>
           </View>
           
@@ -454,22 +731,56 @@ export function SettingsModal({
             
             <SettingsCard theme={theme}>
               <ToggleRow
-                label={`Lock with ${getBiometricLabel(biometricInfo.biometricType)}`}
+                label={biometricInfo.isAvailable ? `Lock with ${getBiometricLabel(biometricInfo.biometricType)}` : 'Lock with PIN'}
                 description="Require authentication to open the app"
                 icon={getBiometricIcon(biometricInfo.biometricType)}
                 value={biometricLockEnabled}
                 onValueChange={handleBiometricToggle}
-                disabled={!biometricInfo.isAvailable}
                 theme={theme}
               />
               
               {!biometricInfo.isAvailable && (
                 <Text style={[styles.disabledHint, { color: theme.textMuted }]}>
                   {biometricInfo.isEnrolled 
-                    ? 'Biometric authentication is not available on this device.'
-                    : 'Set up biometrics in your device settings to use this feature.'}
+                    ? 'Biometric authentication is not available on this device. The app PIN is used instead.'
+                    : 'Set up biometrics in your device settings to unlock without the app PIN.'}
                 </Text>
               )}
+              
+              {biometricLockEnabled && (
+                <>
+                  <View style={[styles.toggleDivider, { backgroundColor: theme.border }]} />
+                  
+                  <Text style={[styles.cardLabel, { color: theme.text }]}>Lock After</Text>
+                  <View style={styles.textSizeControl}>
+                    {AUTO_LOCK_TIMEOUTS.map((seconds) => (
+                      <TouchableOpacity
+                        key={seconds}
+                        style={[
+                          styles.textSizeOption,
+                          { backgroundColor: theme.surfaceVariant },
+                          autoLockTimeout === seconds && { backgroundColor: theme.primary },
+                        ]}
+                        onPress={() => handleAutoLockChange(seconds)}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.textSizeLabel, { color: autoLockTimeout === seconds ? '#fff' : theme.text }]}>
+                          {AUTO_LOCK_LABELS[seconds]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <Text style={[styles.disabledHint, { color: theme.textMuted }]}>
+                    Time in the background before the app locks again.
+                  </Text>
+                  
+                  <View style={[styles.toggleDivider, { backgroundColor: theme.border }]} />
+                  
+                  <TouchableOpacity onPress={() => setShowPinSetup(true)} activeOpacity={0.7}>
+                    <Text style={[styles.linkText, { color: theme.primary }]}>Change PIN</Text>
+                  </TouchableOpacity>
+                </>
+              )}
             </SettingsCard>
           </View>
           
@@ -497,6 +808,35 @@ export function SettingsModal({
               </View>
             </SettingsCard>
             
+            {/* Gateway Profiles */}
+            <SettingsCard theme={theme}>
+              <Text style={[styles.cardLabel, { color: theme.text }]}>Gateways</Text>
+              {profiles.map((profile) => {
+                const isActive = profile.id === activeProfileId;
+                return (
+                  <TouchableOpacity
+                    key={profile.id}
+                    style={[styles.profileRow, { borderBottomColor: theme.border }]}
+                    onPress={() => handleProfileSwitch(profile.id)}
+                    activeOpacity={0.7}
+                  >
+                    <View style={styles.profileInfo}>
+                      <Text style={[styles.profileName, { color: theme.text }]} numberOfLines={1}>
+                        {profile.name}
+                      </Text>
+                      <Text style={[styles.connectionValue, { color: theme.textMuted }]} numberOfLines={1}>
+                        {profile.url}
+                      </Text>
+                    </View>
+                    {isActive && <Text style={[styles.profileCheck, { color: theme.primary }]}>✓</Text>}
+                  </TouchableOpacity>
+                );
+              })}
+              <TouchableOpacity style={styles.addProfileButton} onPress={handleAddProfile} activeOpacity={0.7}>
+                <Text style={[styles.linkText, { color: theme.primary }]}>+ Add Gateway</Text>
+              </TouchableOpacity>
+            </SettingsCard>
+            
             {/* Disconnect Button */}
             <TouchableOpacity
               style={[styles.disconnectButton, { backgroundColor: theme.error }]}
@@ -544,6 +884,12 @@ export function SettingsModal({
           {/* Bottom padding */}
           <View style={{ height: 32 }} />
         </ScrollView>
+        
+        <PinSetupModal
+          visible={showPinSetup}
+          onClose={() => setShowPinSetup(false)}
+          onSaved={handlePinSaved}
+        />
       </SafeAreaView>
     </Modal>
   );
@@ -726,6 +1072,28 @@ const styles = StyleSheet.create({
   connectionValue: {
     fontSize: 14,
   },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileName: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginBottom: 2,
+  },
+  profileCheck: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginLeft: 8,
+  },
+  addProfileButton: {
+    paddingTop: 12,
+  },
   disconnectButton: {
     padding: 15,
     borderRadius: 12,
@@ -805,6 +1173,45 @@ const styles = StyleSheet.create({
     height: 1,
     marginVertical: 12,
   },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 10,
+    marginLeft: 26,
+  },
+  timeLabel: {
+    fontSize: 14,
+    width: 44,
+  },
+  timeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  timeButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  timeValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+    minWidth: 52,
+    textAlign: 'center',
+  },
+  keywordsLabel: {
+    marginTop: 16,
+  },
+  keywordsInput: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
   disabledHint: {
     fontSize: 12,
     marginTop: 8,
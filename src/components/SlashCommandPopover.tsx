@@ -0,0 +1,85 @@
+/**
+ * Slash command autocomplete shown above the composer
+ * while a command name is being typed
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
+import { useSettings } from '../stores/settings';
+import { spacing, radius, shadows } from '../theme/colors';
+import type { SlashCommand } from '../utils/slashCommands';
+
+interface SlashCommandPopoverProps {
+  commands: SlashCommand[];
+  onSelect: (command: SlashCommand) => void;
+}
+
+export function SlashCommandPopover({ commands, onSelect }: SlashCommandPopoverProps) {
+  const { theme } = useSettings();
+
+  if (commands.length === 0) return null;
+
+  return (
+    <Animated.View
+      entering={FadeIn.duration(150)}
+      exiting={FadeOut.duration(100)}
+      style={[styles.container, { backgroundColor: theme.surface, borderColor: theme.border }, shadows.md]}
+    >
+      <ScrollView keyboardShouldPersistTaps="always" bounces={false}>
+        {commands.map((command, index) => (
+          <TouchableOpacity
+            key={command.name}
+            style={[
+              styles.item,
+              index < commands.length - 1 && { borderBottomColor: theme.border, borderBottomWidth: StyleSheet.hairlineWidth },
+            ]}
+            onPress={() => onSelect(command)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.nameRow}>
+              <Text style={[styles.name, { color: theme.primary }]}>/{command.name}</Text>
+              {command.args && (
+                <Text style={[styles.args, { color: theme.textMuted }]}>{command.args}</Text>
+              )}
+            </View>
+            <Text style={[styles.description, { color: theme.textSecondary }]} numberOfLines={1}>
+              {command.description}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+    maxHeight: 240,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  item: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: spacing.sm,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  args: {
+    fontSize: 12,
+  },
+  description: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
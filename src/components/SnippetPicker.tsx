@@ -0,0 +1,321 @@
+/**
+ * Snippet Picker
+ *
+ * Composer button that opens the snippet library:
+ * - Tap a snippet to insert it (variables filled in)
+ * - Long press to edit or delete
+ * - Create new snippets
+ * - Import / export the library as JSON
+ */
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import Animated, { useAnimatedStyle, useSharedValue, withSpring } from 'react-native-reanimated';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useSettings } from '../stores/settings';
+import { StorageHelpers } from '../stores/storage';
+import {
+  loadSnippets,
+  expandSnippet,
+  exportSnippets,
+  importSnippets,
+  SNIPPET_VARIABLES,
+} from '../utils/snippets';
+import type { Snippet } from '../types';
+
+interface SnippetPickerProps {
+  // Text selected in the composer, used for {{selection}}
+  selection?: string;
+  onInsert: (text: string) => void;
+  disabled?: boolean;
+}
+
+const AnimatedTouchable = Animated.createAnimatedComponent(TouchableOpacity);
+
+export function SnippetPicker({ selection = '', onInsert, disabled }: SnippetPickerProps) {
+  const { theme, isDark } = useSettings();
+  const buttonScale = useSharedValue(1);
+  const [visible, setVisible] = useState(false);
+  const [snippets, setSnippets] = useState<Snippet[]>(loadSnippets);
+  const [editing, setEditing] = useState<Snippet | null>(null);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+
+  const canSave = title.trim().length > 0 && body.trim().length > 0;
+
+  const updateSnippets = useCallback((next: Snippet[]) => {
+    StorageHelpers.setSnippets(next);
+    setSnippets(next);
+  }, []);
+
+  const handleOpen = useCallback(() => {
+    if (disabled) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSnippets(loadSnippets());
+    setEditing(null);
+    setVisible(true);
+  }, [disabled]);
+
+  const handleInsert = useCallback(async (snippet: Snippet) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const text = await expandSnippet(snippet.body, selection);
+    setVisible(false);
+    onInsert(text);
+  }, [selection, onInsert]);
+
+  const startEditing = useCallback((snippet: Snippet | null) => {
+    setTitle(snippet?.title ?? '');
+    setBody(snippet?.body ?? '');
+    setEditing(snippet ?? { id: '', title: '', body: '', createdAt: 0 });
+  }, []);
+
+  const handleSave = useCallback(() => {
+    if (!editing || !canSave) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+    const saved: Snippet = editing.id
+      ? { ...editing, title: title.trim(), body }
+      : { id: `snippet-${Date.now().toString(36)}`, title: title.trim(), body, createdAt: Date.now() };
+    const exists = snippets.some(s => s.id === saved.id);
+    updateSnippets(exists ? snippets.map(s => s.id === saved.id ? saved : s) : [...snippets, saved]);
+    setEditing(null);
+  }, [editing, canSave, title, body, snippets, updateSnippets]);
+
+  const handleLongPress = useCallback((snippet: Snippet) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(snippet.title, undefined, [
+      { text: 'Edit', onPress: () => startEditing(snippet) },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => updateSnippets(snippets.filter(s => s.id !== snippet.id)),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ], { cancelable: true });
+  }, [snippets, startEditing, updateSnippets]);
+
+  const handleExport = useCallback(() => {
+    exportSnippets(snippets).catch((err: Error) => Alert.alert('Export Failed', err.message));
+  }, [snippets]);
+
+  const handleImport = useCallback(async () => {
+    try {
+      const result = await importSnippets(snippets);
+      if (result.imported === 0) return;
+      setSnippets(result.snippets);
+      Alert.alert('Snippets Imported', `Imported ${result.imported} snippet${result.imported === 1 ? '' : 's'}.`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      // Closing the file picker is not an error
+      if (/cancel/i.test(message)) return;
+      Alert.alert('Import Failed', message);
+    }
+  }, [snippets]);
+
+  const buttonAnimatedStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: buttonScale.value }],
+  }));
+
+  const renderSnippet = ({ item }: { item: Snippet }) => (
+    <TouchableOpacity
+      style={[styles.snippetItem, { backgroundColor: theme.surface }]}
+      onPress={() => handleInsert(item)}
+      onLongPress={() => handleLongPress(item)}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.snippetTitle, { color: theme.text }]} numberOfLines={1}>
+        {item.title}
+      </Text>
+      <Text style={[styles.snippetBody, { color: theme.textMuted }]} numberOfLines={2}>
+        {item.body}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <>
+      <AnimatedTouchable
+        style={[
+          styles.button,
+          {
+            backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)',
+            borderColor: theme.inputBorder,
+          },
+          disabled && styles.disabled,
+          buttonAnimatedStyle,
+        ]}
+        onPress={handleOpen}
+        onPressIn={() => { buttonScale.value = withSpring(0.9, { damping: 15 }); }}
+        onPressOut={() => { buttonScale.value = withSpring(1, { damping: 12 }); }}
+        disabled={disabled}
+        activeOpacity={1}
+      >
+        <Text style={[styles.icon, { color: disabled ? theme.textMuted : theme.primary }]}>📝</Text>
+      </AnimatedTouchable>
+
+      <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setVisible(false)}>
+        <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+          <View style={[styles.header, { borderBottomColor: theme.border }]}>
+            <Text style={[styles.headerTitle, { color: theme.text }]}>
+              {editing ? (editing.id ? 'Edit Snippet' : 'New Snippet') : 'Snippets'}
+            </Text>
+            <TouchableOpacity
+              onPress={() => (editing ? setEditing(null) : setVisible(false))}
+              style={styles.closeButton}
+            >
+              <Text style={[styles.closeText, { color: theme.primary }]}>{editing ? 'Back' : 'Done'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {editing ? (
+            <ScrollView contentContainerStyle={styles.form} keyboardShouldPersistTaps="handled">
+              <Text style={[styles.label, { color: theme.textSecondary }]}>Title</Text>
+              <TextInput
+                style={[styles.input, { color: theme.text, backgroundColor: theme.surface, borderColor: theme.border }]}
+                value={title}
+                onChangeText={setTitle}
+                placeholder="e.g. Review this diff"
+                placeholderTextColor={theme.textMuted}
+              />
+
+              <Text style={[styles.label, { color: theme.textSecondary }]}>Prompt</Text>
+              <TextInput
+                style={[styles.input, styles.bodyInput, { color: theme.text, backgroundColor: theme.surface, borderColor: theme.border }]}
+                value={body}
+                onChangeText={setBody}
+                placeholder="Write the prompt..."
+                placeholderTextColor={theme.textMuted}
+                multiline
+                textAlignVertical="top"
+              />
+
+              <Text style={[styles.hint, { color: theme.textMuted }]}>Tap a variable to add it:</Text>
+              <View style={styles.variables}>
+                {SNIPPET_VARIABLES.map(name => (
+                  <TouchableOpacity
+                    key={name}
+                    style={[styles.variableChip, { borderColor: theme.border, backgroundColor: theme.surface }]}
+                    onPress={() => setBody(prev => `${prev}{{${name}}}`)}
+                  >
+                    <Text style={[styles.variableText, { color: theme.primary }]}>{`{{${name}}}`}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.primaryButton, { backgroundColor: theme.primary, opacity: canSave ? 1 : 0.5 }]}
+                onPress={handleSave}
+                disabled={!canSave}
+              >
+                <Text style={styles.primaryButtonText}>Save</Text>
+              </TouchableOpacity>
+            </ScrollView>
+          ) : (
+            <>
+              <View style={styles.actionsRow}>
+                <TouchableOpacity style={[styles.actionButton, { backgroundColor: theme.primary }]} onPress={() => startEditing(null)}>
+                  <Text style={styles.actionButtonText}>+ New</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.actionButton, { backgroundColor: theme.surface, borderColor: theme.border, borderWidth: 1 }]} onPress={handleImport}>
+                  <Text style={[styles.actionButtonText, { color: theme.text }]}>Import</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.actionButton, { backgroundColor: theme.surface, borderColor: theme.border, borderWidth: 1 }]} onPress={handleExport}>
+                  <Text style={[styles.actionButtonText, { color: theme.text }]}>Export</Text>
+                </TouchableOpacity>
+              </View>
+
+              <FlatList
+                data={snippets}
+                renderItem={renderSnippet}
+                keyExtractor={(item) => item.id}
+                contentContainerStyle={styles.listContent}
+                ListEmptyComponent={
+                  <View style={styles.emptyContainer}>
+                    <Text style={[styles.emptyText, { color: theme.textMuted }]}>No snippets yet</Text>
+                  </View>
+                }
+              />
+
+              <View style={[styles.footer, { borderTopColor: theme.border }]}>
+                <Text style={[styles.footerText, { color: theme.textMuted }]}>Long press to edit or delete</Text>
+              </View>
+            </>
+          )}
+        </SafeAreaView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+  },
+  disabled: { opacity: 0.5 },
+  icon: { fontSize: 18 },
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: { fontSize: 20, fontWeight: '700' },
+  closeButton: { padding: 4 },
+  closeText: { fontSize: 16, fontWeight: '600' },
+  actionsRow: { flexDirection: 'row', gap: 8, padding: 12 },
+  actionButton: { flex: 1, paddingVertical: 10, borderRadius: 10, alignItems: 'center' },
+  actionButtonText: { color: '#fff', fontSize: 15, fontWeight: '600' },
+  listContent: { paddingHorizontal: 12 },
+  snippetItem: { padding: 12, borderRadius: 10, marginBottom: 4 },
+  snippetTitle: { fontSize: 15, fontWeight: '500' },
+  snippetBody: { fontSize: 12, marginTop: 2 },
+  emptyContainer: { paddingVertical: 40, alignItems: 'center' },
+  emptyText: { fontSize: 14 },
+  form: { padding: 16 },
+  label: { fontSize: 13, fontWeight: '600', marginBottom: 6, marginTop: 12 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  bodyInput: { minHeight: 160 },
+  hint: { fontSize: 12, marginTop: 12 },
+  variables: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 8 },
+  variableChip: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 14, borderWidth: 1 },
+  variableText: { fontSize: 13, fontWeight: '500' },
+  primaryButton: {
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  primaryButtonText: { color: '#fff', fontSize: 16, fontWeight: '600' },
+  footer: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderTopWidth: 1,
+    alignItems: 'center',
+  },
+  footerText: { fontSize: 12 },
+});
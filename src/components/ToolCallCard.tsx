@@ -0,0 +1,150 @@
+/**
+ * Tool Call Card
+ *
+ * Collapsible card for a tool the agent invoked:
+ * - Header with tool name and status
+ * - Arguments and (truncated) output when expanded
+ */
+
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useSettings } from '../stores/settings';
+import { spacing, radius } from '../theme/colors';
+import { truncateOutput, type ToolCall, type ToolCallStatus } from '../utils/tools';
+
+interface ToolCallCardProps {
+  call: ToolCall;
+}
+
+const STATUS_LABELS: Record<ToolCallStatus, string> = {
+  running: 'Running',
+  success: 'Done',
+  error: 'Failed',
+  unknown: 'No result',
+};
+
+const MONOSPACE = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+export function ToolCallCard({ call }: ToolCallCardProps) {
+  const { theme, isDark } = useSettings();
+  const [expanded, setExpanded] = useState(false);
+
+  const toggle = useCallback(() => {
+    Haptics.selectionAsync();
+    setExpanded(prev => !prev);
+  }, []);
+
+  const statusColor = call.status === 'success'
+    ? theme.success
+    : call.status === 'error'
+      ? theme.error
+      : theme.textMuted;
+  const codeBackground = isDark ? '#1e1e1e' : '#f6f8fa';
+  const argsPreview = call.args.replace(/\s+/g, ' ');
+
+  return (
+    <View style={[styles.card, { borderColor: theme.border, backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : 'rgba(0,0,0,0.03)' }]}>
+      <TouchableOpacity style={styles.header} onPress={toggle} activeOpacity={0.7}>
+        <Text style={[styles.chevron, { color: theme.textMuted }]}>{expanded ? '▾' : '▸'}</Text>
+        <Text style={[styles.name, { color: theme.text }]} numberOfLines={1}>🔧 {call.name}</Text>
+        <View style={styles.status}>
+          {call.status === 'running' && <ActivityIndicator size="small" color={theme.primary} />}
+          <Text style={[styles.statusLabel, { color: statusColor }]}>{STATUS_LABELS[call.status]}</Text>
+        </View>
+      </TouchableOpacity>
+
+      {!expanded && argsPreview ? (
+        <Text style={[styles.preview, { color: theme.textSecondary, fontFamily: MONOSPACE }]} numberOfLines={1}>
+          {argsPreview}
+        </Text>
+      ) : null}
+
+      {expanded && (
+        <View style={styles.body}>
+          {call.args ? (
+            <>
+              <Text style={[styles.sectionLabel, { color: theme.textMuted }]}>Arguments</Text>
+              <Text style={[styles.code, { color: theme.text, backgroundColor: codeBackground, fontFamily: MONOSPACE }]} selectable>
+                {call.args}
+              </Text>
+            </>
+          ) : null}
+
+          {call.output !== undefined && (
+            <>
+              <Text style={[styles.sectionLabel, { color: theme.textMuted }]}>Output</Text>
+              <Text
+                style={[
+                  styles.code,
+                  { color: call.status === 'error' ? theme.error : theme.text, backgroundColor: codeBackground, fontFamily: MONOSPACE },
+                ]}
+                selectable
+              >
+                {call.output ? truncateOutput(call.output) : '(empty)'}
+              </Text>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: radius.sm,
+    marginBottom: spacing.sm,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs + 2,
+    gap: spacing.xs,
+  },
+  chevron: {
+    fontSize: 12,
+    width: 12,
+  },
+  name: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  status: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  statusLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  preview: {
+    fontSize: 11,
+    paddingHorizontal: spacing.sm,
+    paddingBottom: spacing.xs + 2,
+  },
+  body: {
+    paddingHorizontal: spacing.sm,
+    paddingBottom: spacing.sm,
+  },
+  sectionLabel: {
+    fontSize: 10,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+    textTransform: 'uppercase',
+    marginTop: spacing.xs,
+    marginBottom: 2,
+  },
+  code: {
+    fontSize: 11,
+    lineHeight: 15,
+    padding: spacing.sm,
+    borderRadius: radius.sm,
+    overflow: 'hidden',
+  },
+});
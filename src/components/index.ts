@@ -3,18 +3,30 @@
  */
 
 export { MessageBubble } from './MessageBubble';
+export { ToolCallCard } from './ToolCallCard';
 export { MarkdownRenderer, SimpleTextRenderer } from './MarkdownRenderer';
+export { CodeBlock } from './CodeBlock';
+export { MarkdownTable } from './MarkdownTable';
+export { MathView } from './MathView';
 export { TypingIndicator, TypingDots } from './TypingIndicator';
 export { ScrollToBottomButton } from './ScrollToBottomButton';
-export { AttachmentPicker, AttachmentPreview } from './AttachmentPicker';
+export { AttachmentPicker, AttachmentPreview, AttachmentTray } from './AttachmentPicker';
 export { SessionDrawer } from './SessionDrawer';
 export { SettingsModal } from './SettingsModal';
 export { SearchModal } from './SearchModal';
 export { GlobalSearchModal } from './GlobalSearchModal';
+export { SavedMessagesModal } from './SavedMessagesModal';
 export { ConnectionStatusBar } from './ConnectionStatusBar';
 export { SwipeableMessage } from './SwipeableMessage';
 export { NewMessagesPill } from './NewMessagesPill';
+export { OutboxMessage } from './OutboxMessage';
+export { PersonaPicker } from './PersonaPicker';
+export { ModelPicker } from './ModelPicker';
+export { SlashCommandPopover } from './SlashCommandPopover';
+export { SnippetPicker } from './SnippetPicker';
 export { UnreadBadge } from './UnreadBadge';
+export { PinPad } from './PinPad';
+export { PinSetupModal } from './PinSetupModal';
 export { SkeletonMessage, SkeletonSession, MessageListSkeleton, SessionListSkeleton } from './Skeleton';
 export { EmptyState, EmptyMessages, EmptySessions, EmptySearch } from './EmptyState';
 export { VoiceInputButton } from './VoiceInputButton';
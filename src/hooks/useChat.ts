@@ -1,21 +1,164 @@
 /**
  * Main chat hook for CamiApp
  * Manages gateway connection, chat engine, and message state
+ * Cached history (MessageCache) is shown first, then reconciled with the gateway
+ * Engine updates are coalesced per animation frame; while streaming only the
+ * streaming message object is replaced, so settled bubbles keep their identity
+ * Finished messages in every session (not just the open one) update the
+ * session list live and are reported through onSessionActivity
  * 
  * FIXED: Race condition where engine was created in both .then() and the session effect
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { GatewayClient, ChatEngine, type UIMessage, type PendingAttachment as SDKPendingAttachment } from 'expo-openclaw-chat';
-import type { SessionMeta, PickedAttachment } from '../types';
+import { File } from 'expo-file-system';
+import type { SessionMeta, PickedAttachment, OutboxItem, VersionGroup, ModelInfo } from '../types';
 import { StorageHelpers } from '../stores/storage';
+import { MessageCache } from '../stores/messageCache';
+import { OutboxFiles } from '../stores/outboxFiles';
+import { clearTitledCache, markAsTitled } from '../services/smartTitles';
+import { getContentHash } from '../utils/messageHash';
+import { applyVersions, findVersionGroup, type MessageVersionInfo } from '../utils/versions';
+import { createBranchSeed, stripBranchContext } from '../utils/branches';
+import { resolveFileType } from '../utils/mime';
+import { stripPersonaContext } from '../utils/personas';
+import { prepareSessionPrompt, markSessionPrimed } from '../utils/sessionPrompt';
+import { createOutboxId } from '../utils/outbox';
+import { subscribeSessionEvents, type SessionActivity } from '../services/sessionEvents';
+import { addNotificationActionListener } from '../services/notificationActions';
 
 type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
 
+// Display copy of a message without injected branch/persona context (kept per message object)
+const displayMessageCache = new WeakMap<UIMessage, UIMessage>();
+
+function toDisplayMessage(message: UIMessage): UIMessage {
+  let display = displayMessageCache.get(message);
+  if (!display) {
+    display = stripBranchContext(stripPersonaContext(message));
+    displayMessageCache.set(message, display);
+  }
+  return display;
+}
+
+/**
+ * Next message list for an engine update. While streaming, messages other than
+ * the last keep their previous object; the streaming one is copied so a reply
+ * mutated in place by the engine still renders.
+ */
+function mergeEngineMessages(previous: UIMessage[], next: UIMessage[], isStreaming: boolean): UIMessage[] {
+  if (!isStreaming) return next;
+  
+  const previousById = new Map(previous.map(m => [m.id, m]));
+  const last = next.length - 1;
+  return next.map((m, i) => {
+    if (i === last) return { ...m, content: [...m.content] };
+    return previousById.get(m.id) ?? m;
+  });
+}
+
+// Shown order of a live session: branch seed, pages loaded by loadOlder(), then the engine's messages
+function combineMessages(seed: UIMessage[], older: UIMessage[], current: UIMessage[]): UIMessage[] {
+  const currentIds = new Set(current.map(m => m.id));
+  return [...seed, ...older.filter(m => !currentIds.has(m.id)), ...current];
+}
+
+// Changes when messages are added, dropped or the last one is edited (what a completed turn changes)
+function cacheSignature(messages: UIMessage[]): string {
+  const last = messages[messages.length - 1];
+  return `${messages.length}:${messages[0]?.id ?? ''}:${last ? `${last.id}:${getContentHash(last)}` : ''}`;
+}
+
+// Number of older messages fetched per loadOlder() call
+const HISTORY_PAGE_SIZE = 50;
+
+// New version being captured after "Edit & resend" / "Regenerate"
+interface PendingVersion {
+  sessionKey: string;
+  groupId: string;
+  slot: number;
+  knownIds: Set<string>;
+}
+
+// Reply being attributed to the model it was requested with
+interface PendingModel {
+  sessionKey: string;
+  model: string;
+  knownIds: Set<string>;
+}
+
+// Extract plain text from a message
+function extractText(message: UIMessage): string {
+  return message.content
+    .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+}
+
+// Cached history of a session, or the seed of a fresh branch
+async function loadCachedMessages(sessKey: string): Promise<UIMessage[]> {
+  const cached = await MessageCache.load(sessKey);
+  if (cached.length > 0) return cached;
+  return StorageHelpers.getSessionBranch(sessKey)?.seed ?? [];
+}
+
+// Model for the next message of a session: its override, else the default
+function resolveModel(sessKey: string): string | null {
+  return StorageHelpers.getSessionModel(sessKey) ?? StorageHelpers.getDefaultModel();
+}
+
+// Point the gateway session at a model before sending (once per change)
+async function applyModel(client: GatewayClient, sessKey: string, model: string | null, applied: Record<string, string | null>) {
+  if (applied[sessKey] === model || (!model && !(sessKey in applied))) return;
+  await client.request('sessions.patch', { key: sessKey, model });
+  applied[sessKey] = model;
+}
+
+// Load the persisted outbox; items interrupted mid-send go back to pending
+// (attachments that older versions stored inline are sent as they are)
+function loadOutbox(): OutboxItem[] {
+  return StorageHelpers.getOutbox().map(item =>
+    item.status === 'sending' ? { ...item, status: 'pending' } : item
+  );
+}
+
+// Picked files are only read when sent; a file that went away fails the send instead of being dropped
+async function readBase64(uri: string, fileName: string): Promise<string> {
+  try {
+    return await new File(uri).base64();
+  } catch (err) {
+    console.warn('[useChat] Failed to read attachment:', uri, err);
+    throw new Error(`Couldn't read the attachment ${fileName}`);
+  }
+}
+
+// Convert picked attachments to SDK format (image/file); content without base64 is read from the file
+// Note: SDK supports 'image' | 'file' - audio and documents are sent as 'file'
+async function toSDKAttachments(attachmentsInput?: PickedAttachment[]): Promise<SDKPendingAttachment[] | undefined> {
+  if (!attachmentsInput) return undefined;
+  const attachments = await Promise.all(attachmentsInput.map(async (att, i): Promise<SDKPendingAttachment> => {
+    const { mimeType, fileName } = resolveFileType(att.fileName, att.uri, att.mimeType, `attachment-${i + 1}`);
+    const type: 'image' | 'file' = mimeType.startsWith('image/') ? 'image' : 'file';
+    return {
+      id: `att-${Date.now()}-${i}`,
+      fileName,
+      mimeType,
+      content: att.base64 || await readBase64(att.uri, fileName),
+      type,
+    };
+  }));
+  return attachments.filter(a => a.content);
+}
+
 interface UseChatOptions {
   gatewayUrl: string;
   authToken: string;
   sessionKey?: string;
+  // Active gateway profile; changing it rebuilds the client with that profile's caches
+  profileId?: string | null;
+  // Called for every finished message in any session
+  onSessionActivity?: (activity: SessionActivity) => void;
 }
 
 interface UseChatReturn {
@@ -25,38 +168,184 @@ interface UseChatReturn {
   isStreaming: boolean;
   error: Error | null;
   
-  // Messages
+  // Messages (only the selected reply version is included)
   messages: UIMessage[];
+  messageVersions: Record<string, MessageVersionInfo>;
+  hasOlderMessages: boolean;
+  isLoadingOlder: boolean;
   
-  // Actions
-  send: (text: string, attachments?: PickedAttachment[]) => Promise<void>;
+  // Actions (send queues to the outbox while disconnected)
+  send: (text: string, attachments?: PickedAttachment[], model?: string) => Promise<void>;
   abort: () => Promise<void>;
   clear: () => void;
   reconnect: () => Promise<void>;
+  loadOlder: () => Promise<void>;
+  editAndResend: (messageId: string, text: string) => Promise<void>;
+  regenerate: (messageId: string) => Promise<void>;
+  selectVersion: (groupId: string, index: number) => void;
+  
+  // Models (sessionModel is the override, activeModel what the next message uses)
+  models: ModelInfo[];
+  defaultModel: string | null;
+  sessionModel: string | null;
+  activeModel: string | null;
+  messageModels: Record<string, string>;
+  setDefaultModel: (modelId: string | null) => void;
+  setSessionModel: (modelId: string | null) => void;
+  refreshModels: () => Promise<void>;
   
   // Session management
   sessions: SessionMeta[];
   currentSessionKey: string;
   switchSession: (sessionKey: string) => void;
+  branchSession: (messageId: string) => string | null;
   refreshSessions: () => Promise<void>;
+  renameSession: (sessionKey: string, label: string) => Promise<void>;
+  archiveSession: (sessionKey: string, archived: boolean) => Promise<void>;
+  deleteSession: (sessionKey: string) => Promise<void>;
+  
+  // Offline outbox
+  outbox: OutboxItem[];
+  retryQueued: (id: string) => void;
+  cancelQueued: (id: string) => Promise<OutboxItem | null>;
   
   // Client access (for advanced use)
   client: GatewayClient | null;
 }
 
-export function useChat({ gatewayUrl, authToken, sessionKey = 'main' }: UseChatOptions): UseChatReturn {
+export function useChat({ gatewayUrl, authToken, sessionKey = 'main', profileId = null, onSessionActivity }: UseChatOptions): UseChatReturn {
   // Refs for stable references
   const clientRef = useRef<GatewayClient | null>(null);
   const engineRef = useRef<ChatEngine | null>(null);
   const unsubChatRef = useRef<(() => void) | null>(null);
+  const profileIdRef = useRef(profileId);
   
   // State
   const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
   const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<Error | null>(null);
-  const [messages, setMessages] = useState<UIMessage[]>([]);
+  const [messages, setMessages] = useState<UIMessage[]>(() => StorageHelpers.getSessionBranch(sessionKey)?.seed ?? []);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  // Latest cached history load; a newer load or engine supersedes it
+  const cacheLoadRef = useRef(0);
+  // Pages loaded via loadOlder(), prepended to the engine's messages
+  const olderMessagesRef = useRef<UIMessage[]>([]);
+  // Branch seed of the current session, shown before everything else
+  const seedRef = useRef<UIMessage[]>([]);
+  const [hasOlderMessages, setHasOlderMessages] = useState(true);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const isLoadingOlderRef = useRef(false);
+  const [versionGroups, setVersionGroups] = useState<VersionGroup[]>(() => StorageHelpers.getReplyVersions(sessionKey));
+  const versionGroupsRef = useRef(versionGroups);
+  const pendingVersionRef = useRef<PendingVersion | null>(null);
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [defaultModel, setDefaultModelState] = useState(() => StorageHelpers.getDefaultModel());
+  const [sessionModel, setSessionModelState] = useState(() => StorageHelpers.getSessionModel(sessionKey));
+  const [messageModels, setMessageModels] = useState(() => StorageHelpers.getMessageModels(sessionKey));
+  const messageModelsRef = useRef(messageModels);
+  const pendingModelRef = useRef<PendingModel | null>(null);
+  // Model last set on each gateway session by this client
+  const appliedModelsRef = useRef<Record<string, string | null>>({});
+  
+  // Update version groups of the current session and persist them
+  const updateVersionGroups = useCallback((updater: (groups: VersionGroup[]) => VersionGroup[]) => {
+    const next = updater(versionGroupsRef.current);
+    versionGroupsRef.current = next;
+    StorageHelpers.setReplyVersions(currentSessionKeyRef.current, next);
+    setVersionGroups(next);
+  }, []);
+  
+  // Switch the version groups shown to another session
+  const loadVersionGroups = useCallback((sessKey: string) => {
+    pendingVersionRef.current = null;
+    versionGroupsRef.current = StorageHelpers.getReplyVersions(sessKey);
+    setVersionGroups(versionGroupsRef.current);
+  }, []);
+  
+  // Switch the model state shown to another session
+  const loadModelState = useCallback((sessKey: string) => {
+    pendingModelRef.current = null;
+    setDefaultModelState(StorageHelpers.getDefaultModel());
+    setSessionModelState(StorageHelpers.getSessionModel(sessKey));
+    messageModelsRef.current = StorageHelpers.getMessageModels(sessKey);
+    setMessageModels(messageModelsRef.current);
+  }, []);
+  
+  // Remember which model produced replies to a message in flight
+  const captureModel = useCallback((engineMessages: UIMessage[], streaming: boolean) => {
+    const pending = pendingModelRef.current;
+    if (!pending || pending.sessionKey !== currentSessionKeyRef.current) return;
+    
+    const replies = engineMessages.filter(m =>
+      m.role === 'assistant' && !pending.knownIds.has(m.id) && !messageModelsRef.current[m.id]
+    );
+    if (replies.length > 0) {
+      const next = { ...messageModelsRef.current };
+      for (const reply of replies) next[reply.id] = pending.model;
+      messageModelsRef.current = next;
+      StorageHelpers.setMessageModels(pending.sessionKey, next);
+      setMessageModels(next);
+    }
+    
+    if (!streaming && engineMessages.some(m => m.role === 'assistant' && !pending.knownIds.has(m.id))) {
+      pendingModelRef.current = null;
+    }
+  }, []);
+  
+  // Attribute the replies to the next message to a model
+  const trackModel = useCallback((sessKey: string, model: string | null) => {
+    pendingModelRef.current = model
+      ? { sessionKey: sessKey, model, knownIds: new Set(messagesRef.current.map(m => m.id)) }
+      : null;
+  }, []);
+  
+  // Record the prompt/reply of a version in flight as they appear
+  const captureVersion = useCallback((engineMessages: UIMessage[], streaming: boolean) => {
+    const pending = pendingVersionRef.current;
+    if (!pending || pending.sessionKey !== currentSessionKeyRef.current) return;
+    
+    const fresh = engineMessages.filter(m => !pending.knownIds.has(m.id));
+    const prompt = fresh.find(m => m.role === 'user');
+    const reply = fresh.find(m => m.role === 'assistant');
+    const group = versionGroupsRef.current.find(g => g.id === pending.groupId);
+    if (!group) return;
+    
+    if ((prompt && group.promptIds[pending.slot] !== prompt.id) ||
+        (reply && group.replyIds[pending.slot] !== reply.id)) {
+      updateVersionGroups(groups => groups.map(g => {
+        if (g.id !== pending.groupId) return g;
+        const promptIds = [...g.promptIds];
+        const replyIds = [...g.replyIds];
+        if (prompt) promptIds[pending.slot] = prompt.id;
+        replyIds[pending.slot] = reply?.id ?? null;
+        return { ...g, promptIds, replyIds, selected: pending.slot };
+      }));
+    }
+    
+    if (reply && !streaming) {
+      pendingVersionRef.current = null;
+    }
+  }, [updateVersionGroups]);
   const [sessions, setSessions] = useState<SessionMeta[]>([]);
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
   const [currentSessionKey, setCurrentSessionKey] = useState(sessionKey);
+  const currentSessionKeyRef = useRef(currentSessionKey);
+  currentSessionKeyRef.current = currentSessionKey;
+  const [outbox, setOutbox] = useState<OutboxItem[]>(loadOutbox);
+  const outboxRef = useRef(outbox);
+  const isFlushingRef = useRef(false);
+  
+  // Update outbox state and persist it (attachment files of dropped items are deleted)
+  const updateOutbox = useCallback((updater: (items: OutboxItem[]) => OutboxItem[]) => {
+    const next = updater(outboxRef.current);
+    const kept = new Set(next.map(item => item.id));
+    outboxRef.current.filter(item => !kept.has(item.id)).forEach(item => OutboxFiles.remove(item.id));
+    outboxRef.current = next;
+    StorageHelpers.setOutbox(next);
+    setOutbox(next);
+  }, []);
   
   // Fetch sessions from gateway
   const fetchSessions = useCallback(async (client?: GatewayClient) => {
@@ -77,6 +366,8 @@ export function useChat({ gatewayUrl, authToken, sessionKey = 'main' }: UseChatO
         createdAt: s.createdAt,
         updatedAt: s.updatedAt,
         messageCount: s.messageCount,
+        model: s.model,
+        archived: s.archived === true,
       }));
       
       // Cache sessions
@@ -91,8 +382,35 @@ export function useChat({ gatewayUrl, authToken, sessionKey = 'main' }: UseChatO
       }
     }
   }, []);
+  
+  // Fetch available models from gateway
+  const fetchModels = useCallback(async (client?: GatewayClient) => {
+    const c = client || clientRef.current;
+    if (!c || !c.isConnected) return;
+    
+    try {
+      const response = await c.request('models.list', {});
+      const modelList: ModelInfo[] = (response?.models || []).map((m: any) => ({
+        id: m.id,
+        name: m.name || m.id,
+        provider: m.provider,
+        contextWindow: m.contextWindow,
+      }));
+      setModels(modelList);
+    } catch (err) {
+      console.warn('[useChat] Failed to fetch models:', err);
+    }
+  }, []);
 
   // Helper to create and set up engine
+  // Show a session's cached history (read asynchronously, it's encrypted)
+  const showCachedMessages = useCallback((sessKey: string) => {
+    const load = ++cacheLoadRef.current;
+    loadCachedMessages(sessKey).then((cached) => {
+      if (cacheLoadRef.current === load) setMessages(cached);
+    });
+  }, []);
+  
   const createEngine = useCallback((client: GatewayClient, sessKey: string) => {
     console.log('[useChat] Creating engine for session:', sessKey);
     
@@ -109,20 +427,75 @@ export function useChat({ gatewayUrl, authToken, sessionKey = 'main' }: UseChatO
     const engine = new ChatEngine(client, sessKey);
     engineRef.current = engine;
     
-    // Reset state for new engine
-    setMessages([]);
+    // Reset state for new engine, showing cached history until the gateway's arrives
+    const load = ++cacheLoadRef.current;
+    let hasGatewayHistory = false;
+    let savedSignature: string | null = null;
+    olderMessagesRef.current = [];
+    seedRef.current = StorageHelpers.getSessionBranch(sessKey)?.seed ?? [];
+    setMessages(seedRef.current);
     setIsStreaming(false);
+    setHasOlderMessages(true);
+    loadVersionGroups(sessKey);
+    loadModelState(sessKey);
     
-    // Subscribe to engine updates
-    const unsubUpdate = engine.on('update', () => {
-      console.log('[useChat] Engine update:', {
-        messageCount: engine.messages.length,
-        isStreaming: engine.isStreaming,
-        lastMsg: engine.messages[engine.messages.length - 1]?.content,
-      });
-      // Create new array to ensure React detects the change
-      setMessages([...engine.messages]);
-      setIsStreaming(engine.isStreaming);
+    // Apply the engine's latest state (at most once per frame)
+    let frame: number | null = null;
+    const flushUpdate = () => {
+      frame = null;
+      if (engineRef.current !== engine) return;
+      // An empty engine before history has loaded must not wipe the cached view
+      if (!hasGatewayHistory && engine.messages.length === 0) return;
+      hasGatewayHistory = true;
+      
+      const streaming = engine.isStreaming;
+      const current = mergeEngineMessages(messagesRef.current, engine.messages, streaming);
+      const combined = combineMessages(seedRef.current, olderMessagesRef.current, current);
+      messagesRef.current = combined;
+      setMessages(combined);
+      setIsStreaming(streaming);
+      captureVersion(engine.messages, streaming);
+      captureModel(engine.messages, streaming);
+      
+      // Persist completed turns (an emptied session too), skipping updates that changed nothing
+      if (!streaming) {
+        const signature = cacheSignature(combined);
+        if (signature !== savedSignature) {
+          savedSignature = signature;
+          MessageCache.save(sessKey, combined);
+        }
+      }
+    };
+    
+    // Subscribe to engine updates, coalescing token bursts into one render per frame
+    const unsubEngineUpdate = engine.on('update', () => {
+      if (frame === null) frame = requestAnimationFrame(flushUpdate);
+    });
+    const unsubUpdate = () => {
+      unsubEngineUpdate();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+    
+    MessageCache.load(sessKey).then((cached) => {
+      if (engineRef.current !== engine || cacheLoadRef.current !== load || hasGatewayHistory) return;
+      if (cached.length === 0) {
+        hasGatewayHistory = true;
+        return;
+      }
+      messagesRef.current = cached;
+      setMessages(cached);
+      
+      // Confirm an empty history with the gateway so a reset session drops its stale cache
+      client.chatHistory(sessKey, { limit: 1 })
+        .then((history) => {
+          if (engineRef.current !== engine || hasGatewayHistory) return;
+          if ((history.messages || []).length === 0) {
+            hasGatewayHistory = true;
+            MessageCache.remove(sessKey);
+            setMessages(seedRef.current);
+          }
+        })
+        .catch(() => {});
     });
     
     const unsubError = engine.on('error', (err) => {
@@ -137,7 +510,55 @@ export function useChat({ gatewayUrl, authToken, sessionKey = 'main' }: UseChatO
     };
     
     return engine;
-  }, []);
+  }, [loadVersionGroups, loadModelState, captureVersion, captureModel]);
+  
+  // Replay queued messages in order. A failed message waits for a manual retry
+  // and holds back the later messages of its session (to keep their order),
+  // while other sessions keep flushing.
+  const flushOutbox = useCallback(async () => {
+    const client = clientRef.current;
+    if (isFlushingRef.current || !client?.isConnected) return;
+    isFlushingRef.current = true;
+    
+    const blockedSessions = new Set<string>();
+    try {
+      for (const queued of [...outboxRef.current]) {
+        if (blockedSessions.has(queued.sessionKey)) continue;
+        if (queued.status === 'failed') {
+          blockedSessions.add(queued.sessionKey);
+          continue;
+        }
+        if (!outboxRef.current.some(item => item.id === queued.id)) continue; // cancelled meanwhile
+        
+        updateOutbox(items => items.map(item => item.id === queued.id ? { ...item, status: 'sending', error: undefined } : item));
+        
+        // Messages for other sessions go through a short-lived engine
+        const isCurrent = queued.sessionKey === currentSessionKeyRef.current && engineRef.current;
+        const engine = isCurrent ? engineRef.current! : new ChatEngine(client, queued.sessionKey);
+        
+        try {
+          const model = queued.model ?? resolveModel(queued.sessionKey);
+          await applyModel(client, queued.sessionKey, model, appliedModelsRef.current);
+          if (isCurrent) trackModel(queued.sessionKey, model);
+          const attachments = await OutboxFiles.load(queued.attachments);
+          await engine.send(prepareSessionPrompt(queued.sessionKey, queued.text), await toSDKAttachments(attachments));
+          markSessionPrimed(queued.sessionKey);
+          updateOutbox(items => items.filter(item => item.id !== queued.id));
+        } catch (err) {
+          console.warn('[useChat] Failed to replay queued message:', err);
+          const message = err instanceof Error ? err.message : String(err);
+          updateOutbox(items => items.map(item => item.id === queued.id ? { ...item, status: 'failed', error: message } : item));
+          blockedSessions.add(queued.sessionKey);
+        } finally {
+          if (!isCurrent) engine.destroy();
+        }
+      }
+    } finally {
+      isFlushingRef.current = false;
+    }
+    
+    setTimeout(() => fetchSessions(), 1000);
+  }, [updateOutbox, fetchSessions, trackModel]);
   
   // Initialize client and connect
   useEffect(() => {
@@ -145,6 +566,25 @@ export function useChat({ gatewayUrl, authToken, sessionKey = 'main' }: UseChatO
     
     console.log('[useChat] Initializing connection to:', gatewayUrl);
     
+    // Profile switched: restore that profile's last session and cached sessions
+    if (profileIdRef.current !== profileId) {
+      profileIdRef.current = profileId;
+      clearTitledCache();
+      const lastSessionKey = StorageHelpers.getLastSessionKey();
+      currentSessionKeyRef.current = lastSessionKey;
+      setCurrentSessionKey(lastSessionKey);
+      setSessions((StorageHelpers.getSessionsCache() as SessionMeta[] | null) ?? []);
+      outboxRef.current = loadOutbox();
+      setOutbox(outboxRef.current);
+      showCachedMessages(lastSessionKey);
+      loadVersionGroups(lastSessionKey);
+      loadModelState(lastSessionKey);
+      setModels([]);
+      appliedModelsRef.current = {};
+      setIsStreaming(false);
+      setError(null);
+    }
+    
     // Clean up previous
     if (unsubChatRef.current) {
       unsubChatRef.current();
@@ -178,10 +618,13 @@ export function useChat({ gatewayUrl, authToken, sessionKey = 'main' }: UseChatO
         setError(null);
         // Create engine when connected (if not already created)
         if (!engineRef.current && clientRef.current) {
-          createEngine(clientRef.current, currentSessionKey);
+          createEngine(clientRef.current, currentSessionKeyRef.current);
         }
-        // Fetch sessions on connect
+        // Fetch sessions and models on connect
         fetchSessions(client);
+        fetchModels(client);
+        // Replay messages queued while offline
+        flushOutbox();
       } else if (state === 'disconnected') {
         // Engine is invalid when disconnected
         if (engineRef.current) {
@@ -220,12 +663,19 @@ export function useChat({ gatewayUrl, authToken, sessionKey = 'main' }: UseChatO
         clientRef.current = null;
       }
     };
-  }, [gatewayUrl, authToken, createEngine, fetchSessions]); // Note: currentSessionKey NOT in deps
+  }, [gatewayUrl, authToken, profileId, createEngine, showCachedMessages, fetchSessions, fetchModels, flushOutbox, loadVersionGroups, loadModelState]); // Note: currentSessionKey NOT in deps
   
   // Handle session changes (only when session changes, not on initial connect)
   useEffect(() => {
     const client = clientRef.current;
-    if (!client || connectionState !== 'connected') return;
+    if (!client || connectionState !== 'connected') {
+      // Offline: show whatever history is cached for the session
+      showCachedMessages(currentSessionKey);
+      loadVersionGroups(currentSessionKey);
+      loadModelState(currentSessionKey);
+      StorageHelpers.setLastSessionKey(currentSessionKey);
+      return;
+    }
     
     // Only recreate engine if session actually changed (not on initial mount)
     const currentEngine = engineRef.current;
@@ -241,36 +691,38 @@ export function useChat({ gatewayUrl, authToken, sessionKey = 'main' }: UseChatO
     StorageHelpers.setLastSessionKey(currentSessionKey);
   }, [currentSessionKey]); // Only run when session changes
   
-  // Send message
-  const send = useCallback(async (text: string, attachmentsInput?: PickedAttachment[]) => {
+  // Send message (queued to the outbox when there is no live engine)
+  const send = useCallback(async (text: string, attachmentsInput?: PickedAttachment[], model?: string) => {
     const engine = engineRef.current;
-    if (!engine) {
-      throw new Error('Not connected');
+    if (!engine || !clientRef.current?.isConnected) {
+      console.log('[useChat] Offline, queueing message');
+      const id = createOutboxId();
+      const sessionKey = currentSessionKeyRef.current;
+      const attachments = await OutboxFiles.store(id, attachmentsInput ?? []);
+      updateOutbox(items => [...items, {
+        id,
+        sessionKey,
+        text,
+        attachments,
+        createdAt: Date.now(),
+        status: 'pending',
+        model,
+      }]);
+      return;
     }
     
     console.log('[useChat] Sending message:', { text: text.substring(0, 50), hasAttachments: !!attachmentsInput?.length });
     
-    // Convert attachments to SDK format (image/file)
-    // Note: SDK supports 'image' | 'file' - audio files are sent as 'file'
-    const attachments: SDKPendingAttachment[] | undefined = attachmentsInput?.map((att, i) => {
-      const mimeType = att.mimeType || 'image/jpeg';
-      const isImage = mimeType.startsWith('image/');
-      const type: 'image' | 'file' = isImage ? 'image' : 'file';
-      const ext = mimeType.startsWith('audio/') ? 'm4a' : (isImage ? 'jpg' : 'bin');
-      return {
-        id: `att-${Date.now()}-${i}`,
-        fileName: att.fileName || `attachment-${i}.${ext}`,
-        mimeType,
-        content: att.base64 || '',
-        type,
-      };
-    }).filter(a => a.content);
-    
-    await engine.send(text, attachments);
+    const sessKey = currentSessionKeyRef.current;
+    const modelId = model ?? resolveModel(sessKey);
+    await applyModel(clientRef.current, sessKey, modelId, appliedModelsRef.current);
+    trackModel(sessKey, modelId);
+    await engine.send(prepareSessionPrompt(sessKey, text), await toSDKAttachments(attachmentsInput));
+    markSessionPrimed(sessKey);
     
     // Refresh sessions after sending (to update the list with new session)
     setTimeout(() => fetchSessions(), 1000);
-  }, [fetchSessions]);
+  }, [fetchSessions, updateOutbox, trackModel]);
   
   // Abort current generation
   const abort = useCallback(async () => {
@@ -280,13 +732,135 @@ export function useChat({ gatewayUrl, authToken, sessionKey = 'main' }: UseChatO
     await engine.abort();
   }, []);
   
+  // Load the page of history before the oldest loaded gateway message
+  // (the branch seed and local messages aren't part of the gateway's history).
+  // The gateway returns the newest `limit` messages, so we widen the window by one page.
+  const loadOlder = useCallback(async () => {
+    const client = clientRef.current;
+    const engine = engineRef.current;
+    if (!client?.isConnected || !engine || isLoadingOlderRef.current || !hasOlderMessages) return;
+    
+    const sessKey = currentSessionKeyRef.current;
+    const loaded = combineMessages([], olderMessagesRef.current, engine.messages);
+    const limit = loaded.length + HISTORY_PAGE_SIZE;
+    
+    isLoadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    
+    try {
+      const history = await client.chatHistory(sessKey, { limit });
+      if (sessKey !== currentSessionKeyRef.current || engineRef.current !== engine) return;
+      
+      const all = (history.messages || []) as UIMessage[];
+      const indexById = new Map(all.map((m, i) => [m.id, i]));
+      const oldestIndex = loaded.map(m => indexById.get(m.id)).find(i => i !== undefined);
+      const older = oldestIndex !== undefined
+        ? all.slice(0, oldestIndex)
+        : all.slice(0, Math.max(0, all.length - loaded.length));
+      
+      if (all.length < limit || older.length === 0) {
+        setHasOlderMessages(false);
+      }
+      if (older.length > 0) {
+        olderMessagesRef.current = [...older, ...olderMessagesRef.current];
+        const current = mergeEngineMessages(messagesRef.current, engine.messages, engine.isStreaming);
+        const combined = combineMessages(seedRef.current, olderMessagesRef.current, current);
+        messagesRef.current = combined;
+        setMessages(combined);
+      }
+    } catch (err) {
+      console.warn('[useChat] Failed to load older messages:', err);
+    } finally {
+      isLoadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [hasOlderMessages]);
+  
+  // Send a new version of a prompt/reply pair
+  const sendVersion = useCallback(async (promptId: string, replyId: string | null, text: string) => {
+    const engine = engineRef.current;
+    if (!engine || !clientRef.current?.isConnected) {
+      throw new Error('Not connected');
+    }
+    
+    let group = findVersionGroup(versionGroupsRef.current, promptId) ??
+      (replyId ? findVersionGroup(versionGroupsRef.current, replyId) : undefined);
+    if (!group) {
+      group = { id: `v-${Date.now().toString(36)}`, promptIds: [promptId], replyIds: [replyId], selected: 0 };
+      const created = group;
+      updateVersionGroups(groups => [...groups, created]);
+    }
+    
+    const sessKey = currentSessionKeyRef.current;
+    pendingVersionRef.current = {
+      sessionKey: sessKey,
+      groupId: group.id,
+      slot: group.promptIds.length,
+      knownIds: new Set(messagesRef.current.map(m => m.id)),
+    };
+    
+    try {
+      const model = resolveModel(sessKey);
+      await applyModel(clientRef.current, sessKey, model, appliedModelsRef.current);
+      trackModel(sessKey, model);
+      await engine.send(prepareSessionPrompt(sessKey, text));
+      markSessionPrimed(sessKey);
+    } catch (err) {
+      pendingVersionRef.current = null;
+      throw err;
+    }
+  }, [updateVersionGroups, trackModel]);
+  
+  // Edit a user prompt and send it again as a new version
+  const editAndResend = useCallback(async (messageId: string, text: string) => {
+    const all = messagesRef.current;
+    const index = all.findIndex(m => m.id === messageId);
+    if (index < 0 || all[index].role !== 'user') return;
+    
+    const group = findVersionGroup(versionGroupsRef.current, messageId);
+    const reply = group
+      ? group.replyIds[group.promptIds.indexOf(messageId)] ?? null
+      : all.slice(index + 1).find(m => m.role === 'assistant')?.id ?? null;
+    
+    console.log('[useChat] Edit & resend:', messageId);
+    await sendVersion(messageId, reply, text);
+  }, [sendVersion]);
+  
+  // Ask for a new reply to the prompt before an assistant message
+  const regenerate = useCallback(async (messageId: string) => {
+    const all = messagesRef.current;
+    const index = all.findIndex(m => m.id === messageId);
+    if (index < 0 || all[index].role !== 'assistant') return;
+    
+    const group = findVersionGroup(versionGroupsRef.current, messageId);
+    const promptId = group
+      ? group.promptIds[group.replyIds.indexOf(messageId)]
+      : all.slice(0, index).reverse().find(m => m.role === 'user')?.id;
+    const prompt = all.find(m => m.id === promptId);
+    if (!prompt) return;
+    
+    console.log('[useChat] Regenerating reply:', messageId);
+    await sendVersion(prompt.id, messageId, extractText(prompt));
+  }, [sendVersion]);
+  
+  // Show another version of a prompt/reply pair
+  const selectVersion = useCallback((groupId: string, index: number) => {
+    updateVersionGroups(groups => groups.map(g =>
+      g.id === groupId && index >= 0 && index < g.promptIds.length ? { ...g, selected: index } : g
+    ));
+  }, [updateVersionGroups]);
+  
   // Clear messages
   const clear = useCallback(() => {
     const engine = engineRef.current;
     if (!engine) return;
     console.log('[useChat] Clearing messages');
     engine.clear();
+    olderMessagesRef.current = [];
+    seedRef.current = [];
+    messagesRef.current = [];
     setMessages([]);
+    MessageCache.remove(currentSessionKeyRef.current);
   }, []);
   
   // Reconnect
@@ -312,25 +886,201 @@ export function useChat({ gatewayUrl, authToken, sessionKey = 'main' }: UseChatO
     setCurrentSessionKey(newSessionKey);
   }, []);
   
+  // Fork the conversation up to a message into a new session
+  const branchSession = useCallback((messageId: string): string | null => {
+    const seed = createBranchSeed(applyVersions(messagesRef.current, versionGroupsRef.current).visible, messageId);
+    if (seed.length === 0) return null;
+    
+    const parentKey = currentSessionKeyRef.current;
+    const newKey = `chat-${Date.now().toString(36)}`;
+    StorageHelpers.setSessionBranch(newKey, { parentKey, messageId, createdAt: Date.now(), seed });
+    const persona = StorageHelpers.getSessionPersona(parentKey);
+    if (persona) {
+      StorageHelpers.setSessionPersona(newKey, { personaId: persona.personaId });
+    }
+    
+    console.log('[useChat] Branching', parentKey, 'at', messageId, 'into', newKey);
+    setCurrentSessionKey(newKey);
+    return newKey;
+  }, []);
+  
+  // Default model for sessions without an override
+  const setDefaultModel = useCallback((modelId: string | null) => {
+    StorageHelpers.setDefaultModel(modelId);
+    setDefaultModelState(modelId);
+  }, []);
+  
+  // Model override of the current session (null = use the default)
+  const setSessionModel = useCallback((modelId: string | null) => {
+    StorageHelpers.setSessionModel(currentSessionKeyRef.current, modelId);
+    setSessionModelState(modelId);
+  }, []);
+  
+  const refreshModels = useCallback(async () => {
+    await fetchModels();
+  }, [fetchModels]);
+  
   // Refresh sessions
   const refreshSessions = useCallback(async () => {
     await fetchSessions();
   }, [fetchSessions]);
   
+  // Call a gateway session API (sessions.patch / sessions.delete)
+  const requestSessions = useCallback(async (method: string, params: Record<string, unknown>) => {
+    const client = clientRef.current;
+    if (!client || !client.isConnected) {
+      throw new Error('Not connected to gateway');
+    }
+    await client.request(method, params);
+  }, []);
+  
+  // Update the session list and its cache together
+  const updateSessions = useCallback((updater: (list: SessionMeta[]) => SessionMeta[]) => {
+    setSessions(prev => {
+      const next = updater(prev);
+      StorageHelpers.setSessionsCache(next);
+      return next;
+    });
+  }, []);
+  
+  // Live activity in all sessions: bump the session's metadata, fetch the list for new sessions
+  const onSessionActivityRef = useRef(onSessionActivity);
+  onSessionActivityRef.current = onSessionActivity;
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client || connectionState !== 'connected') return;
+    
+    return subscribeSessionEvents(client, (activity) => {
+      if (sessionsRef.current.some(s => s.key === activity.sessionKey)) {
+        updateSessions(list => list.map(s => s.key === activity.sessionKey
+          ? {
+              ...s,
+              updatedAt: Math.max(s.updatedAt ?? 0, activity.timestamp),
+              // Echoes of the user's own messages also arrive as final events; only replies count
+              messageCount: s.messageCount === undefined || activity.role !== 'assistant' ? s.messageCount : s.messageCount + 1,
+            }
+          : s));
+      } else {
+        fetchSessions(client);
+      }
+      onSessionActivityRef.current?.(activity);
+    });
+  }, [connectionState, updateSessions, fetchSessions]);
+
+  // Replies from notifications that couldn't be sent are queued to the stored outbox: adopt and send them
+  useEffect(() => {
+    return addNotificationActionListener((action) => {
+      if (action.type !== 'reply') return;
+      if (!action.queued) {
+        fetchSessions();
+        return;
+      }
+      updateOutbox(items => {
+        const known = new Set(items.map(item => item.id));
+        return [...items, ...StorageHelpers.getOutbox().filter(item => !known.has(item.id))];
+      });
+      flushOutbox();
+    });
+  }, [updateOutbox, flushOutbox, fetchSessions]);
+
+  // Rename a session; the new label also replaces its smart title
+  const renameSession = useCallback(async (key: string, label: string) => {
+    const trimmed = label.trim();
+    if (!trimmed) return;
+    
+    await requestSessions('sessions.patch', { key, label: trimmed });
+    StorageHelpers.setSmartTitle(key, trimmed);
+    markAsTitled(key);
+    updateSessions(list => list.map(s => s.key === key ? { ...s, label: trimmed } : s));
+  }, [requestSessions, updateSessions]);
+  
+  // Archive or restore a session; archived sessions are never pinned
+  const archiveSession = useCallback(async (key: string, archived: boolean) => {
+    await requestSessions('sessions.patch', { key, archived });
+    
+    updateSessions(list => list.map(s => s.key === key ? { ...s, archived } : s));
+    if (archived) {
+      StorageHelpers.setPinnedSessions(StorageHelpers.getPinnedSessions().filter(k => k !== key));
+    }
+  }, [requestSessions, updateSessions]);
+  
+  // Delete a session on the gateway and everything cached about it
+  const deleteSession = useCallback(async (key: string) => {
+    await requestSessions('sessions.delete', { key });
+    
+    StorageHelpers.forgetSession(key);
+    MessageCache.remove(key);
+    updateOutbox(items => items.filter(item => item.sessionKey !== key));
+    updateSessions(list => list.filter(s => s.key !== key));
+    
+    if (currentSessionKeyRef.current === key) {
+      setCurrentSessionKey('main');
+    }
+  }, [requestSessions, updateSessions, updateOutbox]);
+  
+  // Retry a queued message (and the messages of its session queued after it)
+  const retryQueued = useCallback((id: string) => {
+    updateOutbox(items => items.map(item => item.id === id ? { ...item, status: 'pending', error: undefined } : item));
+    flushOutbox();
+  }, [updateOutbox, flushOutbox]);
+  
+  // Remove a queued message; returns it so callers can restore it for editing
+  const cancelQueued = useCallback(async (id: string): Promise<OutboxItem | null> => {
+    const item = outboxRef.current.find(i => i.id === id);
+    if (!item || item.status === 'sending') return null;
+    // Decrypt the attachments before their files go with the item
+    const attachments = await OutboxFiles.restore(item.attachments).catch((err) => {
+      console.warn('[useChat] Failed to restore queued attachments:', err);
+      return [];
+    });
+    const current = outboxRef.current.find(i => i.id === id);
+    if (!current || current.status === 'sending') return null;
+    updateOutbox(items => items.filter(i => i.id !== id));
+    return { ...current, attachments };
+  }, [updateOutbox]);
+  
+  // Hide non-selected reply versions
+  const { visible: visibleMessages, versionInfo: messageVersions } = useMemo(
+    () => applyVersions(messages.map(toDisplayMessage), versionGroups),
+    [messages, versionGroups],
+  );
+  
   return {
     connectionState,
     isConnected: connectionState === 'connected',
     isStreaming,
     error,
-    messages,
+    messages: visibleMessages,
+    messageVersions,
+    hasOlderMessages,
+    isLoadingOlder,
     send,
     abort,
     clear,
     reconnect,
+    loadOlder,
+    editAndResend,
+    regenerate,
+    selectVersion,
+    models,
+    defaultModel,
+    sessionModel,
+    activeModel: sessionModel ?? defaultModel,
+    messageModels,
+    setDefaultModel,
+    setSessionModel,
+    refreshModels,
     sessions,
     currentSessionKey,
     switchSession,
+    branchSession,
     refreshSessions,
+    renameSession,
+    archiveSession,
+    deleteSession,
+    outbox,
+    retryQueued,
+    cancelQueued,
     client: clientRef.current,
   };
 }
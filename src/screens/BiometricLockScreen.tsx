@@ -1,8 +1,11 @@
 /**
  * Biometric Lock Screen
  * 
- * Shown when biometric lock is enabled and the app is opened.
- * Requires authentication to access the app.
+ * Shown when biometric lock is enabled and the app is opened or comes back
+ * after the auto-lock timeout. Requires authentication to access the app;
+ * switches to the app PIN when biometrics are unavailable or fail repeatedly.
+ * Too many wrong PINs lock the pad for a while (see services/appLock). With
+ * neither biometrics nor a PIN it stays locked until a PIN is set.
  */
 
 import React, { useEffect, useCallback, useState } from 'react';
@@ -16,17 +19,58 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
 import { useBiometricAuth, getBiometricLabel, getBiometricIcon } from '../services/biometrics';
+import { hasAppPin, verifyAppPin, getPinLockedUntil, MAX_BIOMETRIC_ATTEMPTS } from '../services/appLock';
+import { PinPad } from '../components/PinPad';
+import { PinSetupModal } from '../components/PinSetupModal';
 import { useSettings } from '../stores/settings';
 
 interface BiometricLockScreenProps {
   onUnlock: () => void;
 }
 
+function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
 export function BiometricLockScreen({ onUnlock }: BiometricLockScreenProps) {
   const { theme } = useSettings();
   const { biometricInfo, authenticate, isLoading } = useBiometricAuth();
   const [isAuthenticating, setIsAuthenticating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [pinChosen, setPinChosen] = useState(false);
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [showPinSetup, setShowPinSetup] = useState(false);
+  const [hasPin, setHasPin] = useState<boolean | null>(null);
+  const showPin = hasPin === true && (pinChosen || !biometricInfo.isAvailable || failedAttempts >= MAX_BIOMETRIC_ATTEMPTS);
+  const needsPinSetup = !isLoading && !biometricInfo.isAvailable && hasPin === false;
+
+  useEffect(() => {
+    hasAppPin()
+      .then(setHasPin)
+      .catch(() => setHasPin(false));
+    getPinLockedUntil()
+      .then(setLockedUntil)
+      .catch(() => {});
+  }, []);
+
+  // Count down a PIN lockout
+  useEffect(() => {
+    if (lockedUntil === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) {
+        setLockedUntil(null);
+        setPinError(null);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
 
   // Attempt authentication on mount
   useEffect(() => {
@@ -35,6 +79,29 @@ export function BiometricLockScreen({ onUnlock }: BiometricLockScreenProps) {
     }
   }, [isLoading, biometricInfo.isAvailable]);
 
+  // Nothing to authenticate with (biometrics removed and no PIN set): ask for a PIN
+  useEffect(() => {
+    if (needsPinSetup) setShowPinSetup(true);
+  }, [needsPinSetup]);
+
+  const handlePinSaved = useCallback(() => {
+    setShowPinSetup(false);
+    setHasPin(true);
+    onUnlock();
+  }, [onUnlock]);
+
+  const handlePin = useCallback(async (pin: string) => {
+    const result = await verifyAppPin(pin);
+    if (result.success) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onUnlock();
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setLockedUntil(result.lockedUntil);
+      setPinError(result.lockedUntil ? null : 'Wrong PIN. Please try again.');
+    }
+  }, [onUnlock]);
+
   const handleAuthenticate = useCallback(async () => {
     if (isAuthenticating) return;
     
@@ -49,6 +116,7 @@ export function BiometricLockScreen({ onUnlock }: BiometricLockScreenProps) {
         onUnlock();
       } else {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        setFailedAttempts(prev => prev + 1);
         setError('Authentication failed. Please try again.');
       }
     } catch (err) {
@@ -59,7 +127,7 @@ export function BiometricLockScreen({ onUnlock }: BiometricLockScreenProps) {
     }
   }, [isAuthenticating, authenticate, onUnlock]);
 
-  if (isLoading) {
+  if (isLoading || hasPin === null) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
         <ActivityIndicator size="large" color={theme.primary} />
@@ -67,6 +135,55 @@ export function BiometricLockScreen({ onUnlock }: BiometricLockScreenProps) {
     );
   }
 
+  if (needsPinSetup) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={styles.content}>
+          <Text style={styles.appIcon}>🦎</Text>
+          <Text style={[styles.title, { color: theme.text }]}>CamiApp is Locked</Text>
+          <Text style={[styles.setupText, { color: theme.textSecondary }]}>
+            Biometrics aren't available on this device. Set an app PIN to unlock.
+          </Text>
+          <TouchableOpacity
+            style={[styles.unlockButton, { backgroundColor: theme.primary }]}
+            onPress={() => setShowPinSetup(true)}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.unlockButtonText}>Set PIN</Text>
+          </TouchableOpacity>
+        </View>
+        <PinSetupModal
+          visible={showPinSetup}
+          onClose={() => setShowPinSetup(false)}
+          onSaved={handlePinSaved}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  if (showPin) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={styles.content}>
+          <Text style={styles.pinAppIcon}>🦎</Text>
+          <PinPad
+            title="Enter PIN"
+            error={lockedUntil ? `Too many attempts. Try again in ${formatWait(lockedUntil - now)}` : pinError}
+            onComplete={handlePin}
+            disabled={lockedUntil !== null}
+            secondaryLabel={biometricInfo.isAvailable ? getBiometricLabel(biometricInfo.biometricType) : undefined}
+            onSecondary={() => {
+              setPinChosen(false);
+              setFailedAttempts(0);
+              setPinError(null);
+              handleAuthenticate();
+            }}
+          />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
       <View style={styles.content}>
@@ -106,6 +223,13 @@ export function BiometricLockScreen({ onUnlock }: BiometricLockScreenProps) {
             </Text>
           )}
         </TouchableOpacity>
+        
+        {/* PIN fallback */}
+        {hasPin && (
+          <TouchableOpacity onPress={() => setPinChosen(true)} style={styles.pinButton}>
+            <Text style={[styles.pinButtonText, { color: theme.primary }]}>Use PIN</Text>
+          </TouchableOpacity>
+        )}
       </View>
     </SafeAreaView>
   );
@@ -145,6 +269,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     textAlign: 'center',
   },
+  setupText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
   errorText: {
     fontSize: 14,
     textAlign: 'center',
@@ -162,4 +291,16 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  pinButton: {
+    marginTop: 20,
+    padding: 8,
+  },
+  pinButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  pinAppIcon: {
+    fontSize: 48,
+    marginBottom: 24,
+  },
 });
@@ -2,12 +2,21 @@
  * Enhanced Chat Screen - Redesigned
  * 
  * Premium chat interface with:
- * - Clean header with 🦎 Cami title and connection status dot
+ * - Clean header with persona avatar, title and connection status dot
  * - Frosted glass input bar with animated send button
  * - Smooth message animations
  * - Pull-to-refresh with custom animation
  * - New messages pill
  * - Scroll to bottom button
+ * - Offline outbox with pending messages
+ * - Older history loaded when scrolled to the top
+ * - Edit & resend / regenerate for the last turn
+ * - Branch a new session from any message
+ * - Persona picker per session
+ * - Model selector (default + per-session override)
+ * - Slash commands with autocomplete
+ * - Snippet library with {{variables}}
+ * - Per-session composer drafts
  */
 
 import React, { useRef, useState, useCallback, useEffect, useMemo } from 'react';
@@ -39,6 +48,7 @@ import Animated, {
   FadeOut,
 } from 'react-native-reanimated';
 import { BlurView } from 'expo-blur';
+import { File } from 'expo-file-system';
 import * as Haptics from 'expo-haptics';
 import { useSettings } from '../stores/settings';
 import { StorageHelpers } from '../stores/storage';
@@ -46,21 +56,36 @@ import { useChat } from '../hooks/useChat';
 import { MessageBubble } from '../components/MessageBubble';
 import { TypingIndicator } from '../components/TypingIndicator';
 import { ScrollToBottomButton } from '../components/ScrollToBottomButton';
-import { AttachmentPicker, AttachmentPreview } from '../components/AttachmentPicker';
+import { AttachmentPicker, AttachmentTray, MAX_ATTACHMENTS } from '../components/AttachmentPicker';
 import { SessionDrawer } from '../components/SessionDrawer';
 import { SettingsModal } from '../components/SettingsModal';
 import { SearchModal } from '../components/SearchModal';
 import { GlobalSearchModal } from '../components/GlobalSearchModal';
+import { SavedMessagesModal } from '../components/SavedMessagesModal';
 import { ConnectionStatusBar } from '../components/ConnectionStatusBar';
 import { SwipeableMessage } from '../components/SwipeableMessage';
 import { NewMessagesPill } from '../components/NewMessagesPill';
+import { OutboxMessage } from '../components/OutboxMessage';
+import { PersonaPicker } from '../components/PersonaPicker';
+import { ModelPicker, getModelName } from '../components/ModelPicker';
+import { SlashCommandPopover } from '../components/SlashCommandPopover';
+import { SnippetPicker } from '../components/SnippetPicker';
 import { MessageListSkeleton, EmptyMessages, VoiceInputButton } from '../components';
 import { exportConversation } from '../utils/export';
+import { indexToolResults, isSameToolResultIndex, type ToolResultIndex } from '../utils/tools';
+import { getSessionPersona, getAllPersonas } from '../utils/personas';
+import { getStarredMessageIds, toggleSavedMessage } from '../utils/saved';
+import { evaluateNotification } from '../utils/notificationRules';
+import { refreshUnreadCounts, markSessionRead, markSessionsRead, getTotalUnread } from '../utils/unread';
+import { matchSlashCommands, parseSlashCommand, type SlashCommand, type SlashCommandContext } from '../utils/slashCommands';
+import { speakText, stopSpeaking, isSpeaking } from '../services/tts';
 import { needsTitle, generateAndCacheTitle, getCachedTitle } from '../services/smartTitles';
 import { useNotifications, useIsBackground, useNotificationResponses } from '../services/notifications';
+import type { SessionActivity } from '../services/sessionEvents';
+import { addNotificationActionListener } from '../services/notificationActions';
 import { useSoundEffects, type RecordingResult } from '../services/audio';
 import { spacing, radius, shadows } from '../theme/colors';
-import type { UIMessage, PickedImage } from '../types';
+import type { UIMessage, PickedAttachment, Persona, SavedMessage, SessionDraft } from '../types';
 
 interface EnhancedChatScreenProps {
   onDisconnect: () => void;
@@ -68,12 +93,37 @@ interface EnhancedChatScreenProps {
 
 const AnimatedTouchable = Animated.createAnimatedComponent(TouchableOpacity);
 
+// Session (and gateway profile) a draft is saved for
+interface DraftOwner {
+  sessionKey: string;
+  profileId: string | null;
+}
+
+// Composer content as a draft; attachments keep only their URIs and metadata
+function toDraft(text: string, attachments: PickedAttachment[]): SessionDraft {
+  return {
+    text,
+    attachments: attachments.length ? attachments.map(({ base64: _base64, ...rest }) => rest) : undefined,
+    updatedAt: Date.now(),
+  };
+}
+
+// Drafted attachments whose files are gone (e.g. a cleared cache) are dropped
+function fileExists(uri: string): boolean {
+  try {
+    return new File(uri).exists;
+  } catch {
+    return true;
+  }
+}
+
 export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
-  const { theme, textStyle, gatewayUrl, authToken, isDark, soundEffectsEnabled, notificationsEnabled } = useSettings();
+  const { theme, textStyle, gatewayUrl, authToken, activeProfileId, isDark, soundEffectsEnabled, notificationPreferences } = useSettings();
   
   // Notifications and sound effects
-  const { sendLocalNotification } = useNotifications();
+  const { sendLocalNotification, setBadgeCount } = useNotifications();
   const isBackground = useIsBackground();
+  const sessionActivityHandlerRef = useRef<(activity: SessionActivity) => void>(() => {});
   const { playSound } = useSoundEffects();
   
   // Chat hook
@@ -83,34 +133,65 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
     isStreaming,
     error,
     messages,
+    messageVersions,
+    hasOlderMessages,
+    isLoadingOlder,
+    loadOlder,
+    editAndResend,
+    regenerate,
+    selectVersion,
     send,
     abort,
     clear,
     reconnect,
+    models,
+    defaultModel,
+    sessionModel,
+    messageModels,
+    setDefaultModel,
+    setSessionModel,
+    refreshModels,
     sessions,
     currentSessionKey,
     switchSession,
+    branchSession,
     refreshSessions,
+    renameSession,
+    archiveSession,
+    deleteSession,
+    outbox,
+    retryQueued,
+    cancelQueued,
     client,
   } = useChat({
     gatewayUrl,
     authToken,
     sessionKey: 'main',
+    profileId: activeProfileId,
+    onSessionActivity: (activity) => sessionActivityHandlerRef.current(activity),
   });
   
   // Local state
   const [input, setInput] = useState('');
-  const [pendingImage, setPendingImage] = useState<PickedImage | null>(null);
+  const [inputSelection, setInputSelection] = useState({ start: 0, end: 0 });
+  const [pendingAttachments, setPendingAttachments] = useState<PickedAttachment[]>([]);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [showSessionDrawer, setShowSessionDrawer] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showSearch, setShowSearch] = useState(false);
   const [showGlobalSearch, setShowGlobalSearch] = useState(false);
+  const [globalSearchQuery, setGlobalSearchQuery] = useState<string | undefined>(undefined);
   const [showScrollToBottom, setShowScrollToBottom] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isNearBottom, setIsNearBottom] = useState(true);
   const [newMessageCount, setNewMessageCount] = useState(0);
   const [smartTitle, setSmartTitle] = useState<string | null>(null);
+  const [persona, setPersona] = useState<Persona>(() => getSessionPersona(currentSessionKey));
+  const [showPersonaPicker, setShowPersonaPicker] = useState(false);
+  const [showModelPicker, setShowModelPicker] = useState(false);
   const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [showSaved, setShowSaved] = useState(false);
+  const [starredIds, setStarredIds] = useState<Set<string>>(() => getStarredMessageIds(currentSessionKey));
   
   // Animation values
   const sendButtonScale = useSharedValue(1);
@@ -121,7 +202,16 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
   const flatListRef = useRef<FlatList>(null);
   const inputRef = useRef<TextInput>(null);
   const lastMessageCountRef = useRef(0);
-  const lastReadMessageIdRef = useRef<string | null>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
+  const hasUserScrolledRef = useRef(false);
+  // Last message (and whether it was still streaming) marked as read
+  const lastReadMarkRef = useRef<string | null>(null);
+  // Session the composer content belongs to, and that content for saving on switch
+  const draftOwnerRef = useRef<DraftOwner | null>(null);
+  const composerRef = useRef({ input, pendingAttachments, editingMessageId });
+  composerRef.current = { input, pendingAttachments, editingMessageId };
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
   
   // Current session info
   const currentSession = useMemo(() => {
@@ -130,6 +220,28 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
   
   const sessionTitle = smartTitle || currentSession?.label || currentSession?.title || currentSession?.derivedTitle || 'Chat';
   
+  // Only the last turn can be edited or regenerated
+  const { lastUserMessageId, lastAssistantMessageId } = useMemo(() => {
+    const lastUser = [...messages].reverse().find(m => m.role === 'user');
+    const lastAssistant = [...messages].reverse().find(m => m.role === 'assistant');
+    return { lastUserMessageId: lastUser?.id, lastAssistantMessageId: lastAssistant?.id };
+  }, [messages]);
+  
+  // Tool results by call id (shown on the card of the call); kept stable while unchanged
+  const toolResultsRef = useRef<ToolResultIndex | null>(null);
+  const toolResults = useMemo(() => {
+    const next = indexToolResults(messages);
+    const previous = toolResultsRef.current;
+    if (previous && isSameToolResultIndex(previous, next)) return previous;
+    toolResultsRef.current = next;
+    return next;
+  }, [messages]);
+  
+  // Messages queued for this session while offline
+  const queuedMessages = useMemo(() => {
+    return outbox.filter(item => item.sessionKey === currentSessionKey);
+  }, [outbox, currentSessionKey]);
+  
   // Connection status dot color
   const connectionDotColor = useMemo(() => {
     switch (connectionState) {
@@ -141,18 +253,14 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
   }, [connectionState, theme]);
   
   // Has content to send
-  const canSend = input.trim().length > 0 || pendingImage !== null;
+  const canSend = input.trim().length > 0 || pendingAttachments.length > 0;
   
   // Handle send with animation
   const handleSend = useCallback(async () => {
     const text = input.trim();
-    const image = pendingImage;
+    const attachments = pendingAttachments;
     
-    if (!text && !image) return;
-    if (!isConnected) {
-      Alert.alert('Not Connected', 'Please wait for the connection to be established.');
-      return;
-    }
+    if (!text && attachments.length === 0) return;
     
     // Animate send button
     sendButtonScale.value = withSpring(0.85, { damping: 15 });
@@ -163,8 +271,10 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
     }, 150);
     
     // Clear input immediately
+    const editingId = editingMessageId;
     setInput('');
-    setPendingImage(null);
+    setPendingAttachments([]);
+    setEditingMessageId(null);
     Keyboard.dismiss();
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
@@ -173,22 +283,22 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
     }
     
     try {
-      await send(text, image ? [image] : undefined);
+      if (editingId) {
+        await editAndResend(editingId, text);
+      } else {
+        await send(text, attachments.length ? attachments : undefined);
+      }
     } catch (err) {
       console.error('Send failed:', err);
       Alert.alert('Error', 'Failed to send message. Please try again.');
       setInput(text);
-      if (image) setPendingImage(image);
+      if (attachments.length) setPendingAttachments(attachments);
+      if (editingId) setEditingMessageId(editingId);
     }
-  }, [input, pendingImage, isConnected, send, sendButtonScale, sendButtonRotation, soundEffectsEnabled, playSound]);
+  }, [input, pendingAttachments, editingMessageId, send, editAndResend, sendButtonScale, sendButtonRotation, soundEffectsEnabled, playSound]);
 
   // Handle voice recording complete (audio attachment)
   const handleVoiceRecording = useCallback(async (recording: RecordingResult) => {
-    if (!isConnected) {
-      Alert.alert('Not Connected', 'Please wait for the connection to be established.');
-      return;
-    }
-
     try {
       if (soundEffectsEnabled) {
         playSound('send');
@@ -204,7 +314,42 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
       console.error('Voice send failed:', err);
       Alert.alert('Error', 'Failed to send voice message. Please try again.');
     }
-  }, [isConnected, send, soundEffectsEnabled, playSound]);
+  }, [send, soundEffectsEnabled, playSound]);
+  
+  // Edit & resend: load the prompt into the composer
+  const handleEditMessage = useCallback((messageId: string, text: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditingMessageId(messageId);
+    setInput(text);
+    setPendingAttachments([]);
+    inputRef.current?.focus();
+  }, []);
+  
+  // Cancel editing
+  const handleCancelEdit = useCallback(() => {
+    setEditingMessageId(null);
+    setInput('');
+  }, []);
+  
+  // Regenerate an assistant reply
+  const handleRegenerate = useCallback(async (messageId: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      await regenerate(messageId);
+    } catch (err) {
+      console.error('Regenerate failed:', err);
+      Alert.alert('Error', 'Failed to regenerate the reply. Please try again.');
+    }
+  }, [regenerate]);
+  
+  // Edit a queued message: take it out of the outbox and back into the composer
+  const handleEditQueued = useCallback(async (id: string) => {
+    const item = await cancelQueued(id);
+    if (!item) return;
+    setInput(item.text);
+    setPendingAttachments(item.attachments.slice(0, MAX_ATTACHMENTS));
+    inputRef.current?.focus();
+  }, [cancelQueued]);
   
   // Handle abort
   const handleAbort = useCallback(async () => {
@@ -241,6 +386,12 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
     }
   }, [newMessageCount]);
   
+  // Load older history when the user scrolls to the top
+  const handleStartReached = useCallback(() => {
+    if (!hasUserScrolledRef.current || !hasOlderMessages) return;
+    loadOlder();
+  }, [hasOlderMessages, loadOlder]);
+  
   // Scroll to bottom
   const scrollToBottom = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -271,15 +422,23 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
     }
   });
   
-  // Navigate to message from global search
-  const navigateToMessage = useCallback((sessionKey: string, messageIndex: number) => {
+  // Navigate to message from global search or saved messages
+  // (a known message id wins over the index, which shifts as history loads)
+  const navigateToMessage = useCallback((sessionKey: string, messageIndex: number, messageId?: string) => {
+    const resolveIndex = () => {
+      const loadedIndex = messageId ? messagesRef.current.findIndex(m => m.id === messageId) : -1;
+      return loadedIndex >= 0 ? loadedIndex : Math.min(messageIndex, messagesRef.current.length - 1);
+    };
+    
     if (sessionKey === currentSessionKey) {
-      jumpToMessage(messageIndex);
+      jumpToMessage(resolveIndex());
     } else {
       handleSwitchSession(sessionKey);
       setTimeout(() => {
+        const index = resolveIndex();
+        if (index < 0) return;
         flatListRef.current?.scrollToIndex({
-          index: messageIndex,
+          index,
           animated: true,
           viewPosition: 0.5,
         });
@@ -287,6 +446,18 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
     }
   }, [currentSessionKey, handleSwitchSession, jumpToMessage]);
   
+  // Star / unstar a message
+  const handleToggleStar = useCallback((message: UIMessage, text: string) => {
+    const index = messagesRef.current.findIndex(m => m.id === message.id);
+    const starred = toggleSavedMessage(message, text, { key: currentSessionKey, title: sessionTitle }, Math.max(0, index));
+    Haptics.notificationAsync(starred ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Warning);
+    setStarredIds(getStarredMessageIds(currentSessionKey));
+  }, [currentSessionKey, sessionTitle]);
+  
+  const handleOpenSavedMessage = useCallback((item: SavedMessage) => {
+    navigateToMessage(item.sessionKey, item.messageIndex, item.messageId);
+  }, [navigateToMessage]);
+  
   // Handle export
   const handleExport = useCallback(() => {
     if (messages.length === 0) {
@@ -298,14 +469,14 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
       'Export Conversation',
       'Choose export format:',
       [
-        { text: 'Markdown', onPress: () => exportConversation(messages, sessionTitle, 'markdown').catch(handleExportError) },
-        { text: 'JSON', onPress: () => exportConversation(messages, sessionTitle, 'json').catch(handleExportError) },
-        { text: 'Text', onPress: () => exportConversation(messages, sessionTitle, 'text').catch(handleExportError) },
+        { text: 'Markdown', onPress: () => exportConversation(messages, sessionTitle, 'markdown', persona).catch(handleExportError) },
+        { text: 'JSON', onPress: () => exportConversation(messages, sessionTitle, 'json', persona).catch(handleExportError) },
+        { text: 'Text', onPress: () => exportConversation(messages, sessionTitle, 'text', persona).catch(handleExportError) },
         { text: 'Cancel', style: 'cancel' },
       ],
       { cancelable: true }
     );
-  }, [messages, sessionTitle]);
+  }, [messages, sessionTitle, persona]);
   
   const handleExportError = useCallback((err: Error) => {
     Alert.alert('Export Failed', err.message);
@@ -319,14 +490,30 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
     clear();
   }, [switchSession, clear]);
   
-  // Handle image selected
-  const handleImageSelected = useCallback((image: PickedImage) => {
-    setPendingImage(image);
-  }, []);
+  // Branch a new session from a message
+  const handleBranch = useCallback((messageId: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const newKey = branchSession(messageId);
+    if (!newKey) {
+      Alert.alert('Cannot Branch', 'There is no text to branch from at this message.');
+      return;
+    }
+    StorageHelpers.setSmartTitle(newKey, `${sessionTitle} (branch)`);
+  }, [branchSession, sessionTitle]);
+  
+  // Insert a snippet in place of the composer selection
+  const handleInsertSnippet = useCallback((text: string) => {
+    setInput(prev => {
+      const start = Math.min(inputSelection.start, prev.length);
+      const end = Math.min(inputSelection.end, prev.length);
+      return prev.slice(0, start) + text + prev.slice(end);
+    });
+    setTimeout(() => inputRef.current?.focus(), 300);
+  }, [inputSelection]);
   
-  // Handle image removed
-  const handleImageRemoved = useCallback(() => {
-    setPendingImage(null);
+  // Add picked attachments to the tray
+  const handleAttachmentsSelected = useCallback((attachments: PickedAttachment[]) => {
+    setPendingAttachments(prev => [...prev, ...attachments].slice(0, MAX_ATTACHMENTS));
   }, []);
   
   // Input focus handlers
@@ -339,11 +526,14 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
   }, [inputFocused]);
   
   // Auto-scroll on new messages
+  const lastMessageId = messages[messages.length - 1]?.id ?? null;
   useEffect(() => {
     const currentCount = messages.length;
     const previousCount = lastMessageCountRef.current;
+    // Prepended older pages keep the same newest message
+    const isPrepend = lastMessageId === lastMessageIdRef.current;
     
-    if (currentCount > previousCount) {
+    if (currentCount > previousCount && !isPrepend) {
       const newMsgCount = currentCount - previousCount;
       
       if (isNearBottom) {
@@ -354,7 +544,8 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
     }
     
     lastMessageCountRef.current = currentCount;
-  }, [messages.length, isNearBottom]);
+    lastMessageIdRef.current = lastMessageId;
+  }, [messages.length, lastMessageId, isNearBottom]);
   
   // Auto-scroll during streaming
   useEffect(() => {
@@ -376,20 +567,48 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
       playSound('receive');
     }
 
-    if (notificationsEnabled && isBackground) {
+    if (isBackground) {
       const textContent = lastMsg.content
         .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
         .map(block => block.text)
         .join(' ')
         .trim();
 
+      const session = sessions.find(s => s.key === currentSessionKey);
+      const decision = evaluateNotification({ sessionKey: currentSessionKey, session, text: textContent }, notificationPreferences);
+      if (decision.notify) {
+        sendLocalNotification(
+          sessionTitle,
+          textContent ? textContent.slice(0, 120) : 'New message received',
+          { sessionKey: currentSessionKey },
+          decision
+        );
+      }
+    }
+  }, [messages, isStreaming, soundEffectsEnabled, notificationPreferences, isBackground, playSound, sendLocalNotification, sessionTitle, currentSessionKey, sessions]);
+  
+  // Same for replies landing in other sessions (cron jobs, subagents, channels)
+  sessionActivityHandlerRef.current = (activity) => {
+    if (activity.role !== 'assistant' || activity.sessionKey === currentSessionKey) return;
+    
+    const session = sessions.find(s => s.key === activity.sessionKey);
+    const decision = evaluateNotification({ sessionKey: activity.sessionKey, session, text: activity.text }, notificationPreferences);
+    
+    if (soundEffectsEnabled && !isBackground && !StorageHelpers.isSessionMuted(activity.sessionKey)) {
+      playSound('receive');
+    }
+    
+    if (decision.notify) {
+      const title = getCachedTitle(activity.sessionKey)
+        || session?.label || session?.title || session?.derivedTitle || activity.sessionKey;
       sendLocalNotification(
-        sessionTitle,
-        textContent ? textContent.slice(0, 120) : 'New message received',
-        { sessionKey: currentSessionKey }
+        title,
+        activity.text ? activity.text.slice(0, 120) : 'New message received',
+        { sessionKey: activity.sessionKey },
+        decision
       );
     }
-  }, [messages, isStreaming, soundEffectsEnabled, notificationsEnabled, isBackground, playSound, sendLocalNotification, sessionTitle, currentSessionKey]);
+  };
   
   // Smart titles effect
   useEffect(() => {
@@ -405,24 +624,100 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
     }
   }, [currentSessionKey, messages, sessionTitle, smartTitle]);
   
-  // Mark messages as read
+  // A rename replaces the smart title; show it in the header right away
+  const handleRenameSession = useCallback(async (sessionKey: string, label: string) => {
+    await renameSession(sessionKey, label);
+    if (sessionKey === currentSessionKey) {
+      setSmartTitle(getCachedTitle(sessionKey));
+    }
+  }, [renameSession, currentSessionKey]);
+  
+  // Mark messages as read (again once a reply finishes streaming)
   useEffect(() => {
     if (messages.length > 0 && isNearBottom) {
       const lastMsg = messages[messages.length - 1];
-      if (lastMsg.id !== lastReadMessageIdRef.current) {
-        lastReadMessageIdRef.current = lastMsg.id;
-        StorageHelpers.setLastReadMessage(currentSessionKey, lastMsg.id);
+      const mark = `${lastMsg.id}:${isStreaming}`;
+      if (mark !== lastReadMarkRef.current) {
+        lastReadMarkRef.current = mark;
+        const session = sessions.find(s => s.key === currentSessionKey);
+        markSessionRead(currentSessionKey, lastMsg.id, session?.messageCount);
       }
     }
-  }, [messages, currentSessionKey, isNearBottom]);
+  }, [messages, sessions, currentSessionKey, isNearBottom, isStreaming]);
+  
+  // Unread counts from the session list, mirrored to the app icon badge
+  useEffect(() => {
+    const counts = refreshUnreadCounts(sessions, currentSessionKey);
+    setUnreadCounts(counts);
+    setBadgeCount(getTotalUnread(counts));
+  }, [sessions, currentSessionKey, setBadgeCount]);
+  
+  const handleMarkAllRead = useCallback(() => {
+    markSessionsRead(sessions);
+    setUnreadCounts({});
+    setBadgeCount(0);
+  }, [sessions, setBadgeCount]);
+  
+  // "Mark read" on a notification moved a read marker: recount
+  useEffect(() => {
+    return addNotificationActionListener((action) => {
+      if (action.type !== 'mark-read') return;
+      const counts = refreshUnreadCounts(sessions, currentSessionKey);
+      setUnreadCounts(counts);
+      setBadgeCount(getTotalUnread(counts));
+    });
+  }, [sessions, currentSessionKey, setBadgeCount]);
   
   // Reset on session switch
   useEffect(() => {
     setSmartTitle(getCachedTitle(currentSessionKey));
+    setPersona(getSessionPersona(currentSessionKey));
+    setStarredIds(getStarredMessageIds(currentSessionKey));
     setNewMessageCount(0);
     lastMessageCountRef.current = 0;
+    lastMessageIdRef.current = null;
+    hasUserScrolledRef.current = false;
+    setEditingMessageId(null);
   }, [currentSessionKey]);
   
+  // Save the composer as a draft of its session (not while editing a sent message)
+  const saveDraft = useCallback((owner: DraftOwner) => {
+    const { input: text, pendingAttachments: attachments, editingMessageId: editingId } = composerRef.current;
+    if (editingId) return;
+    StorageHelpers.setDraft(owner.sessionKey, toDraft(text, attachments), owner.profileId ?? undefined);
+  }, []);
+  
+  // Keep the previous session's draft and restore the new one on switch
+  useEffect(() => {
+    const previous = draftOwnerRef.current;
+    if (previous?.sessionKey === currentSessionKey && previous.profileId === activeProfileId) return;
+    if (previous) saveDraft(previous);
+    
+    draftOwnerRef.current = { sessionKey: currentSessionKey, profileId: activeProfileId };
+    const draft = StorageHelpers.getDraft(currentSessionKey);
+    setInput(draft?.text ?? '');
+    setPendingAttachments((draft?.attachments ?? []).filter(att => fileExists(att.uri)));
+  }, [currentSessionKey, activeProfileId, saveDraft]);
+  
+  // Persist the draft shortly after typing stops (survives restarts).
+  // Owner and content are captured now, so a switch before the timer fires can't misfile it.
+  useEffect(() => {
+    const owner = draftOwnerRef.current;
+    if (!owner || editingMessageId) return;
+    const draft = toDraft(input, pendingAttachments);
+    const timer = setTimeout(() => {
+      StorageHelpers.setDraft(owner.sessionKey, draft, owner.profileId ?? undefined);
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [input, pendingAttachments, editingMessageId]);
+  
+  // Choose the persona of the current session; its instructions go out with the next message
+  const handleSelectPersona = useCallback((next: Persona) => {
+    if (next.id === persona.id) return;
+    StorageHelpers.setSessionPersona(currentSessionKey, { personaId: next.id });
+    setPersona(next);
+  }, [currentSessionKey, persona.id]);
+  
   // Extract message text
   const extractMessageText = useCallback((msg: UIMessage): string => {
     return msg.content
@@ -431,6 +726,94 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
       .join(' ');
   }, []);
   
+  // Slash commands being typed
+  const slashMatches = useMemo(() => matchSlashCommands(input), [input]);
+  
+  // Screen actions available to slash commands
+  const slashContext = useMemo<SlashCommandContext>(() => {
+    // Exact name/id first, then partial match
+    const findByName = <T extends { id: string; name: string }>(items: T[], query: string) => {
+      const q = query.toLowerCase();
+      return items.find(i => i.id.toLowerCase() === q || i.name.toLowerCase() === q) ??
+        items.find(i => i.id.toLowerCase().includes(q) || i.name.toLowerCase().includes(q));
+    };
+    
+    return {
+      newSession: handleNewSession,
+      clear,
+      exportConversation: (format) => {
+        if (!format) {
+          handleExport();
+        } else if (messages.length === 0) {
+          Alert.alert('No Messages', 'There are no messages to export.');
+        } else {
+          exportConversation(messages, sessionTitle, format, persona).catch(handleExportError);
+        }
+      },
+      openModelPicker: () => setShowModelPicker(true),
+      selectModel: (query) => {
+        const model = findByName(models, query);
+        if (model) setSessionModel(model.id);
+        return !!model;
+      },
+      openPersonaPicker: () => setShowPersonaPicker(true),
+      selectPersona: (query) => {
+        const match = findByName(getAllPersonas(), query);
+        if (match) handleSelectPersona(match);
+        return !!match;
+      },
+      openSearch: (query) => {
+        setGlobalSearchQuery(query);
+        setShowGlobalSearch(true);
+      },
+      openSaved: () => setShowSaved(true),
+      toggleSpeech: () => {
+        if (isSpeaking()) {
+          stopSpeaking();
+          return;
+        }
+        const lastReply = [...messages].reverse().find(m => m.role === 'assistant');
+        const text = lastReply ? extractMessageText(lastReply) : '';
+        if (!text) {
+          Alert.alert('Nothing to Read', 'There is no reply to read aloud yet.');
+          return;
+        }
+        speakText(text, gatewayUrl).catch(() => {
+          Alert.alert('TTS Unavailable', 'Text-to-speech is not available.');
+        });
+      },
+      notify: (title, message) => Alert.alert(title, message),
+    };
+  }, [handleNewSession, clear, handleExport, handleExportError, messages, sessionTitle, persona, models, setSessionModel, handleSelectPersona, extractMessageText, gatewayUrl]);
+  
+  // Run a slash command
+  const runSlashCommand = useCallback((command: SlashCommand, args: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setInput('');
+    Promise.resolve(command.run(slashContext, args)).catch((err) => {
+      Alert.alert('Command Failed', err instanceof Error ? err.message : String(err));
+    });
+  }, [slashContext]);
+  
+  // Pick a command from the popover; commands with arguments wait for them
+  const handleSelectSlashCommand = useCallback((command: SlashCommand) => {
+    if (command.args) {
+      setInput(`/${command.name} `);
+      return;
+    }
+    runSlashCommand(command, '');
+  }, [runSlashCommand]);
+  
+  // Registered slash commands run locally, everything else is sent
+  const handleSubmit = useCallback(() => {
+    const parsed = pendingAttachments.length === 0 && !editingMessageId ? parseSlashCommand(input) : null;
+    if (parsed) {
+      runSlashCommand(parsed.command, parsed.args);
+      return;
+    }
+    handleSend();
+  }, [input, pendingAttachments, editingMessageId, runSlashCommand, handleSend]);
+  
   // Animated styles
   const sendButtonAnimatedStyle = useAnimatedStyle(() => ({
     transform: [
@@ -452,6 +835,7 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
     const isLastMessage = index === messages.length - 1;
     const isStreamingThis = isStreaming && isLastMessage && item.role === 'assistant';
     const messageText = extractMessageText(item);
+    const versionInfo = messageVersions[item.id];
     
     return (
       <SwipeableMessage
@@ -465,16 +849,54 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
           showTimestamp={true}
           gatewayUrl={gatewayUrl}
           onReply={handleReply}
+          onEdit={!isStreaming && item.id === lastUserMessageId ? handleEditMessage : undefined}
+          onRegenerate={!isStreaming && item.id === lastAssistantMessageId ? handleRegenerate : undefined}
+          versionInfo={versionInfo}
+          onSelectVersion={versionInfo ? selectVersion : undefined}
+          onBranch={handleBranch}
+          isStarred={starredIds.has(item.id)}
+          onToggleStar={handleToggleStar}
+          persona={persona}
+          modelName={getModelName(models, messageModels[item.id] ?? null) ?? undefined}
+          toolResults={toolResults}
         />
       </SwipeableMessage>
     );
-  }, [isStreaming, messages.length, gatewayUrl, handleReply, extractMessageText]);
+  }, [isStreaming, messages.length, gatewayUrl, handleReply, extractMessageText, messageVersions, lastUserMessageId, lastAssistantMessageId, handleEditMessage, handleRegenerate, selectVersion, handleBranch, starredIds, handleToggleStar, persona, models, messageModels, toolResults]);
   
   // Empty state
   const renderEmptyState = useCallback(() => <EmptyMessages />, []);
   
-  // Loading state
-  if (connectionState === 'connecting') {
+  // Older history indicator above the conversation
+  const renderHistoryHeader = useCallback(() => {
+    if (isLoadingOlder) {
+      return <ActivityIndicator size="small" color={theme.primary} style={styles.historyLoader} />;
+    }
+    if (!hasOlderMessages && messages.length > 0) {
+      return (
+        <Text style={[styles.historyStart, { color: theme.textMuted }]}>Beginning of conversation</Text>
+      );
+    }
+    return null;
+  }, [isLoadingOlder, hasOlderMessages, messages.length, theme]);
+  
+  // Queued (offline) messages below the conversation
+  const renderOutbox = useCallback(() => (
+    <>
+      {queuedMessages.map(item => (
+        <OutboxMessage
+          key={item.id}
+          item={item}
+          onRetry={retryQueued}
+          onEdit={handleEditQueued}
+          onCancel={cancelQueued}
+        />
+      ))}
+    </>
+  ), [queuedMessages, retryQueued, handleEditQueued, cancelQueued]);
+  
+  // Loading state (cached history is shown instead when available)
+  if (connectionState === 'connecting' && messages.length === 0) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
         <View style={[styles.header, { borderBottomColor: theme.border }]}>
@@ -502,8 +924,8 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
     );
   }
   
-  // Error state
-  if (error && !isConnected) {
+  // Error state (with cached history, the status bar offers retry instead)
+  if (error && !isConnected && messages.length === 0) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
         <View style={styles.errorContainer}>
@@ -548,7 +970,9 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
           onPress={() => setShowSessionDrawer(true)}
           activeOpacity={0.7}
         >
-          <Text style={styles.headerEmoji}>🦎</Text>
+          <TouchableOpacity onPress={() => setShowPersonaPicker(true)} hitSlop={8} activeOpacity={0.7}>
+            <Text style={styles.headerEmoji}>{persona.emoji}</Text>
+          </TouchableOpacity>
           <Text style={[styles.headerTitle, { color: theme.text }]} numberOfLines={1}>
             {sessionTitle}
           </Text>
@@ -557,6 +981,13 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
         
         {/* Right buttons */}
         <View style={styles.headerRight}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setShowModelPicker(true)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.headerButtonIcon}>🧠</Text>
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.headerButton}
             onPress={() => setShowSearch(true)}
@@ -565,6 +996,13 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
           >
             <Text style={styles.headerButtonIcon}>🔍</Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setShowSaved(true)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.headerButtonIcon}>⭐</Text>
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.headerButton}
             onPress={() => setShowSettings(true)}
@@ -587,12 +1025,19 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
             data={messages}
             renderItem={renderMessage}
             keyExtractor={(item) => item.id}
+            initialNumToRender={15}
+            maxToRenderPerBatch={10}
+            windowSize={11}
             contentContainerStyle={[
               styles.messageList,
-              messages.length === 0 && styles.emptyList,
+              messages.length === 0 && queuedMessages.length === 0 && styles.emptyList,
             ]}
             onScroll={handleScroll}
+            onScrollBeginDrag={() => { hasUserScrolledRef.current = true; }}
             scrollEventThrottle={16}
+            onStartReached={handleStartReached}
+            onStartReachedThreshold={0.5}
+            ListHeaderComponent={renderHistoryHeader}
             keyboardDismissMode="on-drag"
             keyboardShouldPersistTaps="handled"
             refreshControl={
@@ -602,7 +1047,8 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
                 tintColor={theme.primary}
               />
             }
-            ListEmptyComponent={renderEmptyState}
+            ListEmptyComponent={queuedMessages.length === 0 ? renderEmptyState : null}
+            ListFooterComponent={renderOutbox}
             onContentSizeChange={() => {
               if (!showScrollToBottom) {
                 flatListRef.current?.scrollToEnd({ animated: false });
@@ -642,17 +1088,38 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
         <View style={[styles.inputWrapper, { borderTopColor: theme.border }]}>
           {/* Use BlurView for frosted glass effect on iOS */}
           <View style={[styles.inputBackground, { backgroundColor: isDark ? 'rgba(20, 20, 20, 0.95)' : 'rgba(255, 255, 255, 0.95)' }]}>
-            {/* Pending image preview */}
-            {pendingImage && (
+            {/* Edit & resend banner */}
+            {editingMessageId && (
+              <View style={styles.editingRow}>
+                <Text style={[styles.editingText, { color: theme.textSecondary }]}>✏️ Editing message</Text>
+                <TouchableOpacity onPress={handleCancelEdit} hitSlop={8}>
+                  <Text style={[styles.editingCancel, { color: theme.textMuted }]}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            
+            {/* Pending attachments */}
+            {pendingAttachments.length > 0 && (
               <View style={styles.attachmentRow}>
-                <AttachmentPreview image={pendingImage} onRemove={handleImageRemoved} />
+                <AttachmentTray attachments={pendingAttachments} onChange={setPendingAttachments} />
               </View>
             )}
             
+            {/* Slash command autocomplete */}
+            <SlashCommandPopover commands={slashMatches} onSelect={handleSelectSlashCommand} />
+            
             <View style={styles.inputRow}>
               {/* Attachment picker */}
               <AttachmentPicker
-                onImageSelected={handleImageSelected}
+                onAttachmentsSelected={handleAttachmentsSelected}
+                currentCount={pendingAttachments.length}
+                disabled={isStreaming}
+              />
+              
+              {/* Snippet library */}
+              <SnippetPicker
+                selection={input.slice(inputSelection.start, inputSelection.end)}
+                onInsert={handleInsertSnippet}
                 disabled={isStreaming}
               />
               
@@ -669,6 +1136,7 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
                   placeholderTextColor={theme.textMuted}
                   value={input}
                   onChangeText={setInput}
+                  onSelectionChange={(e) => setInputSelection(e.nativeEvent.selection)}
                   onFocus={handleInputFocus}
                   onBlur={handleInputBlur}
                   multiline
@@ -681,7 +1149,6 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
               {!isStreaming && !canSend && (
                 <VoiceInputButton
                   onRecordingComplete={handleVoiceRecording}
-                  disabled={!isConnected}
                 />
               )}
 
@@ -701,7 +1168,7 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
                     { backgroundColor: canSend ? theme.primary : theme.border },
                     sendButtonAnimatedStyle,
                   ]}
-                  onPress={handleSend}
+                  onPress={handleSubmit}
                   disabled={!canSend}
                   activeOpacity={0.8}
                 >
@@ -722,7 +1189,29 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
         onSelectSession={handleSwitchSession}
         onNewSession={handleNewSession}
         onRefresh={refreshSessions}
+        onRenameSession={handleRenameSession}
+        onArchiveSession={archiveSession}
+        onDeleteSession={deleteSession}
         unreadCounts={unreadCounts}
+        onMarkAllRead={handleMarkAllRead}
+      />
+      
+      <PersonaPicker
+        visible={showPersonaPicker}
+        onClose={() => setShowPersonaPicker(false)}
+        selectedId={persona.id}
+        onSelect={handleSelectPersona}
+      />
+      
+      <ModelPicker
+        visible={showModelPicker}
+        onClose={() => setShowModelPicker(false)}
+        models={models}
+        defaultModel={defaultModel}
+        sessionModel={sessionModel}
+        onSelectDefault={setDefaultModel}
+        onSelectSession={setSessionModel}
+        onRefresh={refreshModels}
       />
       
       <SettingsModal
@@ -742,11 +1231,23 @@ export function EnhancedChatScreen({ onDisconnect }: EnhancedChatScreenProps) {
       
       <GlobalSearchModal
         visible={showGlobalSearch}
-        onClose={() => setShowGlobalSearch(false)}
+        onClose={() => {
+          setShowGlobalSearch(false);
+          setGlobalSearchQuery(undefined);
+        }}
         sessions={sessions}
         client={client}
         currentSessionKey={currentSessionKey}
         onNavigateToMessage={navigateToMessage}
+        initialQuery={globalSearchQuery}
+      />
+      
+      <SavedMessagesModal
+        visible={showSaved}
+        onClose={() => setShowSaved(false)}
+        currentSessionKey={currentSessionKey}
+        onOpenMessage={handleOpenSavedMessage}
+        onChange={() => setStarredIds(getStarredMessageIds(currentSessionKey))}
       />
     </SafeAreaView>
   );
@@ -852,6 +1353,14 @@ const styles = StyleSheet.create({
   emptyList: {
     flex: 1,
   },
+  historyLoader: {
+    paddingVertical: spacing.md,
+  },
+  historyStart: {
+    fontSize: 12,
+    textAlign: 'center',
+    paddingVertical: spacing.md,
+  },
   typingContainer: {
     paddingHorizontal: spacing.lg,
     paddingVertical: spacing.sm,
@@ -864,6 +1373,20 @@ const styles = StyleSheet.create({
     paddingTop: spacing.sm,
     paddingBottom: spacing.sm,
   },
+  editingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingBottom: spacing.sm,
+  },
+  editingText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  editingCancel: {
+    fontSize: 14,
+    paddingHorizontal: spacing.xs,
+  },
   attachmentRow: {
     flexDirection: 'row',
     paddingBottom: spacing.sm,
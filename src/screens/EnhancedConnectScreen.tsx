@@ -3,7 +3,7 @@
  * 
  * Features:
  * - Persistent connection settings (MMKV)
- * - Recent connections
+ * - Saved gateway profiles with one-tap connect
  * - URL validation
  * - Token visibility toggle
  */
@@ -20,10 +20,12 @@ import {
   Platform,
   ScrollView,
   Linking,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
 import { useSettings } from '../stores/settings';
+import type { GatewayProfile } from '../types';
 
 interface EnhancedConnectScreenProps {
   onConnect: () => void;
@@ -36,8 +38,9 @@ const QUICK_URLS = [
 ];
 
 export function EnhancedConnectScreen({ onConnect }: EnhancedConnectScreenProps) {
-  const { theme, gatewayUrl, authToken, setConnection } = useSettings();
+  const { theme, gatewayUrl, authToken, setConnection, profiles, switchProfile, deleteProfile } = useSettings();
   
+  const [name, setName] = useState('');
   const [url, setUrl] = useState(gatewayUrl);
   const [token, setToken] = useState(authToken);
   const [showToken, setShowToken] = useState(false);
@@ -81,11 +84,32 @@ export function EnhancedConnectScreen({ onConnect }: EnhancedConnectScreenProps)
     }
     
     // Save to persistent storage
-    setConnection(normalizedUrl, token.trim());
+    setConnection(normalizedUrl, token.trim(), name);
     
     // Navigate to chat
     onConnect();
-  }, [url, token, validateUrl, setConnection, onConnect]);
+  }, [name, url, token, validateUrl, setConnection, onConnect]);
+  
+  // Connect with a saved profile
+  const handleSelectProfile = useCallback((profile: GatewayProfile) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    switchProfile(profile.id);
+    onConnect();
+  }, [switchProfile, onConnect]);
+  
+  // Delete a saved profile (long press)
+  const handleDeleteProfile = useCallback((profile: GatewayProfile) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(
+      'Delete Profile',
+      `Remove "${profile.name}" and its cached sessions?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteProfile(profile.id) },
+      ],
+      { cancelable: true }
+    );
+  }, [deleteProfile]);
   
   // Handle quick URL selection
   const handleQuickUrl = useCallback((quickUrl: string) => {
@@ -120,8 +144,62 @@ export function EnhancedConnectScreen({ onConnect }: EnhancedConnectScreenProps)
             </Text>
           </View>
           
+          {/* Saved Profiles */}
+          {profiles.length > 0 && (
+            <View style={styles.profiles}>
+              <Text style={[styles.label, { color: theme.textSecondary }]}>
+                Saved Gateways
+              </Text>
+              {profiles.map((profile) => (
+                <TouchableOpacity
+                  key={profile.id}
+                  style={[styles.profileButton, { backgroundColor: theme.surface, borderColor: theme.border }]}
+                  onPress={() => handleSelectProfile(profile)}
+                  onLongPress={() => handleDeleteProfile(profile)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.profileText}>
+                    <Text style={[styles.profileName, { color: theme.text }]} numberOfLines={1}>
+                      {profile.name}
+                    </Text>
+                    <Text style={[styles.profileUrl, { color: theme.textMuted }]} numberOfLines={1}>
+                      {profile.url}
+                    </Text>
+                  </View>
+                  <Text style={[styles.profileArrow, { color: theme.primary }]}>→</Text>
+                </TouchableOpacity>
+              ))}
+              <Text style={[styles.hint, { color: theme.textMuted }]}>
+                Long press a gateway to delete it
+              </Text>
+            </View>
+          )}
+          
           {/* Connection Form */}
           <View style={styles.form}>
+            {/* Profile name */}
+            <View style={styles.fieldContainer}>
+              <Text style={[styles.label, { color: theme.textSecondary }]}>
+                Name
+              </Text>
+              <TextInput
+                style={[
+                  styles.input,
+                  {
+                    backgroundColor: theme.surface,
+                    borderColor: theme.border,
+                    color: theme.text,
+                  },
+                ]}
+                placeholder="Home, Work, Dev... (optional)"
+                placeholderTextColor={theme.textMuted}
+                value={name}
+                onChangeText={setName}
+                autoCorrect={false}
+                returnKeyType="next"
+              />
+            </View>
+            
             {/* Gateway URL */}
             <View style={styles.fieldContainer}>
               <Text style={[styles.label, { color: theme.textSecondary }]}>
@@ -272,6 +350,33 @@ const styles = StyleSheet.create({
     fontSize: 16,
     textAlign: 'center',
   },
+  profiles: {
+    gap: 8,
+    marginBottom: 24,
+  },
+  profileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+  },
+  profileText: {
+    flex: 1,
+  },
+  profileName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  profileUrl: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  profileArrow: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginLeft: 8,
+  },
   form: {
     gap: 16,
   },
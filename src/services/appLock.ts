@@ -0,0 +1,179 @@
+/**
+ * App Lock Service
+ *
+ * Locks the app on cold start and again after it has spent the auto-lock
+ * timeout in the background. Unlocking uses biometrics, with an app PIN as
+ * the fallback. The PIN is stored as a salted SHA-256 hash in the platform
+ * keystore (SecureStore, this device only). Repeated wrong PINs lock the pad
+ * for an escalating time; the attempt count is kept with the PIN, so
+ * restarting the app doesn't reset it.
+ *
+ * Screen capture is blocked (FLAG_SECURE on Android) only while the lock
+ * screen is showing; the unlocked app can be captured as usual.
+ */
+
+import { useEffect, useRef, useState, useCallback } from 'react';
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+import * as ScreenCapture from 'expo-screen-capture';
+import { StorageHelpers } from '../stores/storage';
+import { useAppState } from './notifications';
+
+export const APP_PIN_LENGTH = 4;
+
+// Failed biometric attempts before the lock screen switches to the PIN
+export const MAX_BIOMETRIC_ATTEMPTS = 3;
+
+// Wrong PINs allowed before the pad locks; each further one doubles the wait
+export const PIN_ATTEMPTS_BEFORE_LOCKOUT = 5;
+const PIN_LOCKOUT_BASE = 30 * 1000;
+const PIN_LOCKOUT_MAX = 60 * 60 * 1000;
+
+const PIN_KEYSTORE_KEY = 'camiapp_app_pin';
+const SCREEN_CAPTURE_KEY = 'app-lock';
+const KEYSTORE_OPTIONS = { keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY };
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+  failedAttempts?: number;
+  lockedUntil?: number;
+}
+
+export interface PinAttemptResult {
+  success: boolean;
+  // Set while the pad is locked after too many wrong PINs
+  lockedUntil: number | null;
+}
+
+export interface UseAppLockReturn {
+  isLocked: boolean;
+  unlock: () => void;
+  // App is leaving the foreground: cover content so the app switcher snapshot shows nothing
+  isObscured: boolean;
+}
+
+async function hashPin(salt: string, pin: string): Promise<string> {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+}
+
+async function writeStoredPin(pin: StoredPin): Promise<void> {
+  await SecureStore.setItemAsync(PIN_KEYSTORE_KEY, JSON.stringify(pin), KEYSTORE_OPTIONS);
+}
+
+async function readStoredPin(): Promise<StoredPin | null> {
+  const json = await SecureStore.getItemAsync(PIN_KEYSTORE_KEY, KEYSTORE_OPTIONS);
+  if (json) {
+    try {
+      return JSON.parse(json) as StoredPin;
+    } catch {
+      return null;
+    }
+  }
+
+  // PIN saved by an older version in app storage: move it to the keystore
+  const legacy = StorageHelpers.getLegacyAppPin();
+  if (!legacy) return null;
+  await writeStoredPin(legacy);
+  StorageHelpers.clearLegacyAppPin();
+  return legacy;
+}
+
+export async function hasAppPin(): Promise<boolean> {
+  return (await readStoredPin()) !== null;
+}
+
+export async function setAppPin(pin: string): Promise<void> {
+  const salt = Crypto.randomUUID();
+  await writeStoredPin({ salt, hash: await hashPin(salt, pin) });
+}
+
+function lockoutDuration(failedAttempts: number): number {
+  const excess = failedAttempts - PIN_ATTEMPTS_BEFORE_LOCKOUT;
+  return Math.min(PIN_LOCKOUT_BASE * 2 ** excess, PIN_LOCKOUT_MAX);
+}
+
+/**
+ * When the PIN pad unlocks again (null if it isn't locked)
+ */
+export async function getPinLockedUntil(): Promise<number | null> {
+  const stored = await readStoredPin();
+  const lockedUntil = stored?.lockedUntil ?? 0;
+  return lockedUntil > Date.now() ? lockedUntil : null;
+}
+
+export async function verifyAppPin(pin: string): Promise<PinAttemptResult> {
+  const stored = await readStoredPin();
+  if (!stored) return { success: false, lockedUntil: null };
+
+  // Locked pads don't even check the PIN
+  if (stored.lockedUntil && stored.lockedUntil > Date.now()) {
+    return { success: false, lockedUntil: stored.lockedUntil };
+  }
+
+  if ((await hashPin(stored.salt, pin)) === stored.hash) {
+    if (stored.failedAttempts) {
+      await writeStoredPin({ salt: stored.salt, hash: stored.hash });
+    }
+    return { success: true, lockedUntil: null };
+  }
+
+  const failedAttempts = (stored.failedAttempts ?? 0) + 1;
+  const lockedUntil = failedAttempts >= PIN_ATTEMPTS_BEFORE_LOCKOUT
+    ? Date.now() + lockoutDuration(failedAttempts)
+    : undefined;
+  await writeStoredPin({ ...stored, failedAttempts, lockedUntil });
+  return { success: false, lockedUntil: lockedUntil ?? null };
+}
+
+export async function clearAppPin(): Promise<void> {
+  StorageHelpers.clearLegacyAppPin();
+  await SecureStore.deleteItemAsync(PIN_KEYSTORE_KEY, KEYSTORE_OPTIONS);
+}
+
+/**
+ * Hook tracking the lock state for the whole app
+ */
+export function useAppLock(enabled: boolean, autoLockTimeout: number): UseAppLockReturn {
+  // Start locked so a cold start never shows content before the lock applies;
+  // the effect below unlocks when the lock is off, so turning it on later
+  // while the app is open doesn't lock
+  const [isLocked, setIsLocked] = useState(true);
+  const appState = useAppState();
+  const backgroundedAtRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!enabled) setIsLocked(false);
+  }, [enabled]);
+
+  const showsLockScreen = enabled && isLocked;
+  useEffect(() => {
+    if (!showsLockScreen) return;
+    ScreenCapture.preventScreenCaptureAsync(SCREEN_CAPTURE_KEY).catch(() => {});
+    return () => {
+      ScreenCapture.allowScreenCaptureAsync(SCREEN_CAPTURE_KEY).catch(() => {});
+    };
+  }, [showsLockScreen]);
+
+  useEffect(() => {
+    if (appState === 'background') {
+      backgroundedAtRef.current ??= Date.now();
+      return;
+    }
+    if (appState !== 'active') return;
+
+    const backgroundedAt = backgroundedAtRef.current;
+    backgroundedAtRef.current = null;
+    if (enabled && backgroundedAt !== null && Date.now() - backgroundedAt >= autoLockTimeout * 1000) {
+      setIsLocked(true);
+    }
+  }, [appState, enabled, autoLockTimeout]);
+
+  const unlock = useCallback(() => setIsLocked(false), []);
+
+  return {
+    isLocked: showsLockScreen,
+    unlock,
+    isObscured: enabled && appState !== 'active',
+  };
+}
@@ -27,6 +27,17 @@ export {
   type NotificationPreferences,
   type NotificationResponseData,
 } from './notifications';
+export {
+  useNotificationActions,
+  addNotificationActionListener,
+  registerNotificationCategories,
+  type NotificationAction,
+} from './notificationActions';
+export {
+  subscribeSessionEvents,
+  parseSessionActivity,
+  type SessionActivity,
+} from './sessionEvents';
 export {
   useBiometricAuth,
   getBiometricLabel,
@@ -34,3 +45,13 @@ export {
   type BiometricType,
   type BiometricInfo,
 } from './biometrics';
+export {
+  useAppLock,
+  hasAppPin,
+  setAppPin,
+  verifyAppPin,
+  clearAppPin,
+  getPinLockedUntil,
+  type UseAppLockReturn,
+  type PinAttemptResult,
+} from './appLock';
@@ -0,0 +1,194 @@
+/**
+ * Notification Actions Service
+ *
+ * Message notifications carry a category with three actions:
+ * - Reply (text input): sent right away over a short-lived gateway
+ *   connection, whether or not the chat screen is mounted. If that fails the
+ *   reply is queued to the persisted outbox and useChat sends it on the next
+ *   connection.
+ * - Mark read: moves the session's read marker to its latest metadata
+ * - Mute session: silences the session's notifications for a while
+ *
+ * useNotificationActions() is mounted once at the app root; screens listen
+ * for handled actions with addNotificationActionListener().
+ */
+
+import { useEffect } from 'react';
+import * as Notifications from 'expo-notifications';
+import { GatewayClient, ChatEngine } from 'expo-openclaw-chat';
+import { StorageHelpers } from '../stores/storage';
+import { markSessionsRead } from '../utils/unread';
+import { createOutboxId } from '../utils/outbox';
+import { prepareSessionPrompt, markSessionPrimed } from '../utils/sessionPrompt';
+import type { OutboxItem, SessionMeta } from '../types';
+
+export const MESSAGE_CATEGORY = 'message';
+
+export const NotificationActionIds = {
+  REPLY: 'reply',
+  MARK_READ: 'mark-read',
+  MUTE: 'mute',
+} as const;
+
+// How long "Mute session" from a notification silences a session
+export const NOTIFICATION_MUTE_DURATION = 8 * 60 * 60 * 1000;
+
+export type NotificationAction =
+  // queued: the reply couldn't be sent and waits in the outbox
+  | { type: 'reply'; sessionKey: string; text: string; queued: boolean }
+  | { type: 'mark-read'; sessionKey: string }
+  | { type: 'mute'; sessionKey: string };
+
+const listeners = new Set<(action: NotificationAction) => void>();
+
+/**
+ * Listen for actions taken on notifications; returns the unsubscribe function
+ */
+export function addNotificationActionListener(listener: (action: NotificationAction) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Register the message category (actions shown on message notifications)
+ */
+export async function registerNotificationCategories(): Promise<void> {
+  try {
+    await Notifications.setNotificationCategoryAsync(MESSAGE_CATEGORY, [
+      {
+        identifier: NotificationActionIds.REPLY,
+        buttonTitle: 'Reply',
+        textInput: { submitButtonTitle: 'Send', placeholder: 'Reply…' },
+        options: { opensAppToForeground: false },
+      },
+      {
+        identifier: NotificationActionIds.MARK_READ,
+        buttonTitle: 'Mark read',
+        options: { opensAppToForeground: false },
+      },
+      {
+        identifier: NotificationActionIds.MUTE,
+        buttonTitle: 'Mute session',
+        options: { opensAppToForeground: false, isDestructive: true },
+      },
+    ]);
+  } catch (error) {
+    console.error('[Notifications] Failed to register categories:', error);
+  }
+}
+
+// Send a reply over its own gateway connection (the app may be in the background)
+async function sendReply(sessionKey: string, text: string): Promise<void> {
+  const gatewayUrl = StorageHelpers.getGatewayUrl();
+  if (!gatewayUrl) throw new Error('No gateway configured');
+
+  const client = new GatewayClient(gatewayUrl, {
+    token: StorageHelpers.getAuthToken() || undefined,
+    autoReconnect: false,
+    displayName: 'CamiApp 🦎',
+    appVersion: '1.0.0',
+    platform: 'react-native',
+  });
+  try {
+    await client.connect();
+    const engine = new ChatEngine(client, sessionKey);
+    try {
+      await engine.send(prepareSessionPrompt(sessionKey, text));
+      markSessionPrimed(sessionKey);
+    } finally {
+      engine.destroy();
+    }
+  } finally {
+    client.disconnect();
+  }
+}
+
+// Add a reply to the persisted outbox (picked up by useChat)
+function queueReply(sessionKey: string, text: string): void {
+  const item: OutboxItem = {
+    id: createOutboxId(),
+    sessionKey,
+    text,
+    attachments: [],
+    createdAt: Date.now(),
+    status: 'pending',
+  };
+  StorageHelpers.setOutbox([...StorageHelpers.getOutbox(), item]);
+}
+
+function markRead(sessionKey: string): void {
+  const cached = (StorageHelpers.getSessionsCache() as SessionMeta[] | null) ?? [];
+  const session = cached.find(s => s.key === sessionKey);
+  markSessionsRead([session ?? { key: sessionKey, friendlyId: sessionKey, updatedAt: Date.now() }]);
+}
+
+/**
+ * Act on a notification response; resolves to the action (null for taps and unknown actions)
+ */
+export async function handleNotificationAction(response: Notifications.NotificationResponse): Promise<NotificationAction | null> {
+  const data = response.notification.request.content.data as { sessionKey?: unknown } | undefined;
+  const sessionKey = typeof data?.sessionKey === 'string' ? data.sessionKey : null;
+  if (!sessionKey) return null;
+
+  let action: NotificationAction | null = null;
+  switch (response.actionIdentifier) {
+    case NotificationActionIds.REPLY: {
+      const text = response.userText?.trim();
+      if (!text) return null;
+      let queued = false;
+      try {
+        await sendReply(sessionKey, text);
+      } catch (error) {
+        console.warn('[Notifications] Reply failed, queueing it:', error);
+        queueReply(sessionKey, text);
+        queued = true;
+      }
+      action = { type: 'reply', sessionKey, text, queued };
+      break;
+    }
+    case NotificationActionIds.MARK_READ:
+      markRead(sessionKey);
+      action = { type: 'mark-read', sessionKey };
+      break;
+    case NotificationActionIds.MUTE:
+      StorageHelpers.muteSession(sessionKey, Date.now() + NOTIFICATION_MUTE_DURATION);
+      action = { type: 'mute', sessionKey };
+      break;
+    default:
+      return null;
+  }
+
+  Notifications.dismissNotificationAsync(response.notification.request.identifier).catch(() => {});
+  listeners.forEach(listener => listener(action));
+  return action;
+}
+
+/**
+ * Register categories and handle notification actions for the whole app
+ * (including the response that launched the app)
+ */
+export function useNotificationActions(): void {
+  useEffect(() => {
+    registerNotificationCategories();
+
+    // The same response can arrive from the listener and as the last response
+    // (also across restarts), so handled ids are persisted
+    const handle = (response: Notifications.NotificationResponse) => {
+      const id = `${response.notification.request.identifier}:${response.actionIdentifier}`;
+      if (StorageHelpers.getHandledNotificationResponses().includes(id)) return;
+      StorageHelpers.addHandledNotificationResponse(id);
+      Notifications.clearLastNotificationResponse();
+      handleNotificationAction(response).catch(error => {
+        console.error('[Notifications] Failed to handle action:', error);
+      });
+    };
+
+    const lastResponse = Notifications.getLastNotificationResponse();
+    if (lastResponse) handle(lastResponse);
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+    return () => subscription.remove();
+  }, []);
+}
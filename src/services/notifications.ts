@@ -9,6 +9,7 @@ import { useEffect, useCallback, useRef, useState } from 'react';
 import * as Notifications from 'expo-notifications';
 import { Platform, AppState, AppStateStatus } from 'react-native';
 import Constants from 'expo-constants';
+import { MESSAGE_CATEGORY } from './notificationActions';
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -21,20 +22,39 @@ Notifications.setNotificationHandler({
   }),
 });
 
-export interface NotificationPreferences {
-  enabled: boolean;
-  soundEnabled: boolean;
-  vibrationEnabled: boolean;
+export type { NotificationPreferences } from '../types';
+
+// How a notification alerts (defaults to sound and vibration)
+export interface NotificationAlertOptions {
+  sound?: boolean;
+  vibrate?: boolean;
 }
 
 export interface UseNotificationsReturn {
   hasPermission: boolean;
   requestPermission: () => Promise<boolean>;
-  sendLocalNotification: (title: string, body: string, data?: Record<string, unknown>) => Promise<string | null>;
+  sendLocalNotification: (
+    title: string,
+    body: string,
+    data?: Record<string, unknown>,
+    alert?: NotificationAlertOptions,
+  ) => Promise<string | null>;
   clearAllNotifications: () => Promise<void>;
   setBadgeCount: (count: number) => Promise<void>;
 }
 
+// Android fixes sound and vibration per channel, so each combination gets one
+const MESSAGE_CHANNELS = [
+  { id: 'messages', name: 'Messages', sound: true, vibrate: true },
+  { id: 'messages-no-vibration', name: 'Messages (no vibration)', sound: true, vibrate: false },
+  { id: 'messages-no-sound', name: 'Messages (no sound)', sound: false, vibrate: true },
+  { id: 'messages-silent', name: 'Messages (silent)', sound: false, vibrate: false },
+];
+
+function getMessageChannelId(sound: boolean, vibrate: boolean): string {
+  return MESSAGE_CHANNELS.find(c => c.sound === sound && c.vibrate === vibrate)!.id;
+}
+
 export interface NotificationResponseData {
   sessionKey?: string;
   [key: string]: unknown;
@@ -96,15 +116,18 @@ export function useNotifications(): UseNotificationsReturn {
       setHasPermission(granted);
       
       if (granted) {
-        // Set up notification channel for Android
+        // Set up notification channels for Android
         if (Platform.OS === 'android') {
-          await Notifications.setNotificationChannelAsync('messages', {
-            name: 'Messages',
-            importance: Notifications.AndroidImportance.HIGH,
-            vibrationPattern: [0, 250, 250, 250],
-            lightColor: '#22c55e', // Green accent
-            sound: 'default',
-          });
+          for (const channel of MESSAGE_CHANNELS) {
+            await Notifications.setNotificationChannelAsync(channel.id, {
+              name: channel.name,
+              importance: Notifications.AndroidImportance.HIGH,
+              vibrationPattern: channel.vibrate ? [0, 250, 250, 250] : null,
+              enableVibrate: channel.vibrate,
+              lightColor: '#22c55e', // Green accent
+              sound: channel.sound ? 'default' : null,
+            });
+          }
         }
       }
       
@@ -118,22 +141,29 @@ export function useNotifications(): UseNotificationsReturn {
   const sendLocalNotification = useCallback(async (
     title: string,
     body: string,
-    data?: Record<string, unknown>
+    data?: Record<string, unknown>,
+    alert: NotificationAlertOptions = {}
   ): Promise<string | null> => {
     if (!hasPermission) {
       console.log('[Notifications] No permission, skipping notification');
       return null;
     }
 
+    const sound = alert.sound ?? true;
+    const vibrate = alert.vibrate ?? true;
+
     try {
       const id = await Notifications.scheduleNotificationAsync({
         content: {
           title,
           body,
           data: data || {},
-          sound: 'default',
+          sound: sound ? 'default' : false,
+          // Message notifications get the Reply / Mark read / Mute actions
+          ...(data?.sessionKey ? { categoryIdentifier: MESSAGE_CATEGORY } : {}),
         },
-        trigger: null, // Immediate
+        // Immediate (on Android through the channel matching sound/vibration)
+        trigger: Platform.OS === 'android' ? { channelId: getMessageChannelId(sound, vibrate) } : null,
       });
       console.log('[Notifications] Sent notification:', id);
       return id;
@@ -202,6 +232,8 @@ export function useIsBackground(): boolean {
 export function useNotificationResponses(onResponse: (data: NotificationResponseData) => void) {
   useEffect(() => {
     const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      // Action buttons are handled by useNotificationActions
+      if (response.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) return;
       const data = (response.notification.request.content.data || {}) as NotificationResponseData;
       onResponse(data);
     });
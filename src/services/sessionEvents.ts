@@ -0,0 +1,81 @@
+/**
+ * Session Events Service
+ *
+ * Watches chat activity in all gateway sessions, not only the one open in
+ * the ChatEngine. The gateway broadcasts a `chat` event for every run:
+ * `delta` frames while a reply streams and a `final` frame with the finished
+ * message. Finished messages are reported as SessionActivity.
+ */
+
+import type { GatewayClient } from 'expo-openclaw-chat';
+import type { UIMessage } from '../types';
+
+export interface SessionActivity {
+  sessionKey: string;
+  role: UIMessage['role'];
+  messageId?: string;
+  // Text of the message (empty for tool-only messages)
+  text: string;
+  timestamp: number;
+}
+
+// Gateway event frame as delivered by GatewayClient.onEvent
+interface GatewayEvent {
+  event: string;
+  payload?: unknown;
+}
+
+interface ChatEventPayload {
+  sessionKey?: string;
+  state?: 'delta' | 'final' | 'aborted' | 'error';
+  message?: {
+    id?: string;
+    role?: UIMessage['role'];
+    content?: unknown;
+    timestamp?: number;
+  };
+}
+
+// Text of a message's content (string or content blocks)
+function extractText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(block => (block && typeof block === 'object' && (block as { type?: string }).type === 'text'
+      ? String((block as { text?: unknown }).text ?? '')
+      : ''))
+    .filter(Boolean)
+    .join(' ')
+    .trim();
+}
+
+/**
+ * Parse a gateway event into session activity (null for anything but finished messages)
+ */
+export function parseSessionActivity(event: GatewayEvent): SessionActivity | null {
+  if (event.event !== 'chat' || !event.payload || typeof event.payload !== 'object') return null;
+
+  const payload = event.payload as ChatEventPayload;
+  if (!payload.sessionKey || payload.state !== 'final' || !payload.message) return null;
+
+  return {
+    sessionKey: payload.sessionKey,
+    role: payload.message.role ?? 'assistant',
+    messageId: payload.message.id,
+    text: extractText(payload.message.content),
+    timestamp: payload.message.timestamp ?? Date.now(),
+  };
+}
+
+/**
+ * Subscribe to finished messages in all sessions; returns the unsubscribe function
+ */
+export function subscribeSessionEvents(
+  client: GatewayClient,
+  onActivity: (activity: SessionActivity) => void,
+): () => void {
+  return client.onEvent((event: GatewayEvent) => {
+    const activity = parseSessionActivity(event);
+    if (activity) onActivity(activity);
+  });
+}
@@ -0,0 +1,288 @@
+/**
+ * Encryption for sensitive storage values
+ *
+ * A random 256-bit master key lives in the platform keystore (SecureStore,
+ * this device only, so it is never part of a backup). Encryption and MAC
+ * keys are derived from it with SHA-256. Values are encrypted with ChaCha20
+ * (RFC 8439) and authenticated with HMAC-SHA256 over the storage key, nonce
+ * and ciphertext, so a value can't be tampered with or moved to another key.
+ *
+ * Stored format: `enc:v1:` + base64(nonce[12] | ciphertext | tag[32])
+ * (binary content, such as attachment files, is stored as the raw bytes).
+ *
+ * Backups: AsyncStorage and the documents directory are part of iOS backups
+ * (Android backup is turned off in app.json). Everything sensitive in them is
+ * encrypted, and the master key never leaves the device, so a backup only
+ * holds ciphertext; values that fail to decrypt after a restore are dropped.
+ */
+
+import * as Crypto from 'expo-crypto';
+import * as SecureStore from 'expo-secure-store';
+
+const KEYSTORE_KEY = 'camiapp_storage_key';
+const PREFIX = 'enc:v1:';
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 32;
+
+interface StorageKeys {
+  encKey: Uint8Array;
+  macKey: Uint8Array;
+}
+
+let keysPromise: Promise<StorageKeys> | null = null;
+
+// Encoding helpers
+
+function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function utf8Decode(bytes: Uint8Array): string {
+  const chars: string[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const b = bytes[i];
+    let code: number;
+    if (b < 0x80) {
+      code = b;
+      i += 1;
+    } else if (b < 0xe0) {
+      code = ((b & 0x1f) << 6) | (bytes[i + 1] & 0x3f);
+      i += 2;
+    } else if (b < 0xf0) {
+      code = ((b & 0x0f) << 12) | ((bytes[i + 1] & 0x3f) << 6) | (bytes[i + 2] & 0x3f);
+      i += 3;
+    } else {
+      code = ((b & 0x07) << 18) | ((bytes[i + 1] & 0x3f) << 12) | ((bytes[i + 2] & 0x3f) << 6) | (bytes[i + 3] & 0x3f);
+      i += 4;
+    }
+    chars.push(String.fromCodePoint(code));
+  }
+  return chars.join('');
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function toBase64(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    out += BASE64[(n >> 18) & 63] + BASE64[(n >> 12) & 63];
+    out += i + 1 < bytes.length ? BASE64[(n >> 6) & 63] : '=';
+    out += i + 2 < bytes.length ? BASE64[n & 63] : '=';
+  }
+  return out;
+}
+
+export function fromBase64(text: string): Uint8Array {
+  const clean = text.replace(/=+$/, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (const char of clean) {
+    const value = BASE64.indexOf(char);
+    if (value < 0) throw new Error('Invalid base64');
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// ChaCha20 (RFC 8439)
+
+function rotl(v: number, c: number): number {
+  return (v << c) | (v >>> (32 - c));
+}
+
+function quarterRound(s: Uint32Array, a: number, b: number, c: number, d: number) {
+  s[a] += s[b]; s[d] = rotl(s[d] ^ s[a], 16);
+  s[c] += s[d]; s[b] = rotl(s[b] ^ s[c], 12);
+  s[a] += s[b]; s[d] = rotl(s[d] ^ s[a], 8);
+  s[c] += s[d]; s[b] = rotl(s[b] ^ s[c], 7);
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+/**
+ * XOR data with the ChaCha20 keystream (encrypts and decrypts)
+ */
+export function chacha20(key: Uint8Array, nonce: Uint8Array, data: Uint8Array, initialCounter = 1): Uint8Array {
+  const state = new Uint32Array(16);
+  state[0] = 0x61707865;
+  state[1] = 0x3320646e;
+  state[2] = 0x79622d32;
+  state[3] = 0x6b206574;
+  for (let i = 0; i < 8; i++) state[4 + i] = readUint32LE(key, i * 4);
+  for (let i = 0; i < 3; i++) state[13 + i] = readUint32LE(nonce, i * 4);
+
+  const out = new Uint8Array(data.length);
+  const working = new Uint32Array(16);
+  const block = new Uint8Array(64);
+  let counter = initialCounter;
+
+  for (let offset = 0; offset < data.length; offset += 64) {
+    state[12] = counter++;
+    working.set(state);
+    for (let round = 0; round < 10; round++) {
+      quarterRound(working, 0, 4, 8, 12);
+      quarterRound(working, 1, 5, 9, 13);
+      quarterRound(working, 2, 6, 10, 14);
+      quarterRound(working, 3, 7, 11, 15);
+      quarterRound(working, 0, 5, 10, 15);
+      quarterRound(working, 1, 6, 11, 12);
+      quarterRound(working, 2, 7, 8, 13);
+      quarterRound(working, 3, 4, 9, 14);
+    }
+    for (let i = 0; i < 16; i++) {
+      const word = (working[i] + state[i]) >>> 0;
+      block[i * 4] = word & 0xff;
+      block[i * 4 + 1] = (word >>> 8) & 0xff;
+      block[i * 4 + 2] = (word >>> 16) & 0xff;
+      block[i * 4 + 3] = (word >>> 24) & 0xff;
+    }
+    const length = Math.min(64, data.length - offset);
+    for (let i = 0; i < length; i++) out[offset + i] = data[offset + i] ^ block[i];
+  }
+  return out;
+}
+
+// SHA-256 / HMAC via expo-crypto
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  // Copy into a plain ArrayBuffer-backed view (BufferSource excludes shared buffers)
+  return new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, new Uint8Array(data)));
+}
+
+async function hmacSha256(key: Uint8Array, message: Uint8Array): Promise<Uint8Array> {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? await sha256(key) : key);
+  const inner = block.map(b => b ^ 0x36);
+  const outer = block.map(b => b ^ 0x5c);
+  return sha256(concat(outer, await sha256(concat(inner, message))));
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+// Keys
+
+async function loadMasterKey(): Promise<Uint8Array> {
+  const options = { keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY };
+  const stored = await SecureStore.getItemAsync(KEYSTORE_KEY, options);
+  if (stored) return fromBase64(stored);
+
+  const key = Crypto.getRandomBytes(32);
+  await SecureStore.setItemAsync(KEYSTORE_KEY, toBase64(key), options);
+  return key;
+}
+
+function getKeys(): Promise<StorageKeys> {
+  keysPromise ??= loadMasterKey()
+    .then(async master => ({
+      encKey: await sha256(concat(master, utf8Encode('camiapp-storage-enc'))),
+      macKey: await sha256(concat(master, utf8Encode('camiapp-storage-mac'))),
+    }))
+    .catch(error => {
+      keysPromise = null;
+      throw error;
+    });
+  return keysPromise;
+}
+
+function macInput(storageKey: string, nonce: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  return concat(utf8Encode(`${PREFIX}${storageKey}\0`), nonce, ciphertext);
+}
+
+// Public API
+
+/**
+ * Whether a stored value is in the encrypted format (anything else is legacy plaintext)
+ */
+export function isEncryptedValue(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt binary content for a storage key (nonce | ciphertext | tag)
+ */
+export async function encryptBytes(storageKey: string, data: Uint8Array): Promise<Uint8Array> {
+  const { encKey, macKey } = await getKeys();
+  const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+  const ciphertext = chacha20(encKey, nonce, data);
+  const tag = await hmacSha256(macKey, macInput(storageKey, nonce, ciphertext));
+  return concat(nonce, ciphertext, tag);
+}
+
+/**
+ * Decrypt binary content stored under a storage key; null if it can't be authenticated
+ */
+export async function decryptBytes(storageKey: string, payload: Uint8Array): Promise<Uint8Array | null> {
+  if (payload.length < NONCE_LENGTH + TAG_LENGTH) return null;
+  const { encKey, macKey } = await getKeys();
+
+  const nonce = payload.subarray(0, NONCE_LENGTH);
+  const ciphertext = payload.subarray(NONCE_LENGTH, payload.length - TAG_LENGTH);
+  const tag = payload.subarray(payload.length - TAG_LENGTH);
+  const expected = await hmacSha256(macKey, macInput(storageKey, nonce, ciphertext));
+  if (!constantTimeEqual(tag, expected)) return null;
+
+  return chacha20(encKey, nonce, ciphertext);
+}
+
+/**
+ * Encrypt a value for a storage key
+ */
+export async function encryptValue(storageKey: string, value: string): Promise<string> {
+  return PREFIX + toBase64(await encryptBytes(storageKey, utf8Encode(value)));
+}
+
+/**
+ * Decrypt a value stored under a storage key; null if it can't be authenticated
+ * (tampered, or encrypted with a key from another install)
+ */
+export async function decryptValue(storageKey: string, stored: string): Promise<string | null> {
+  if (!isEncryptedValue(stored)) return null;
+
+  let payload: Uint8Array;
+  try {
+    payload = fromBase64(stored.slice(PREFIX.length));
+  } catch {
+    return null;
+  }
+  const data = await decryptBytes(storageKey, payload);
+  return data && utf8Decode(data);
+}
@@ -0,0 +1,103 @@
+/**
+ * On-device message history cache
+ * One encrypted file per session (documents/messages/<profile>/<session>.json),
+ * so cached history renders quickly and stays readable offline
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+import { StorageHelpers } from './storage';
+import { encryptValue, decryptValue, isEncryptedValue } from './encryption';
+import type { UIMessage } from '../types';
+
+// Only the most recent messages of a session are kept on disk
+const MAX_CACHED_MESSAGES = 500;
+
+// Writes per file, chained so they land in order
+const pendingWrites: Record<string, Promise<void>> = {};
+
+function profileDirectory(profileId: string): Directory {
+  return new Directory(Paths.document, 'messages', profileId);
+}
+
+function currentProfileId(): string {
+  return StorageHelpers.getActiveProfileId() ?? 'default';
+}
+
+function sessionFile(profileId: string, sessionKey: string): File {
+  const dir = profileDirectory(profileId);
+  if (!dir.exists) {
+    dir.create({ intermediates: true, idempotent: true });
+  }
+  return new File(dir, `${encodeURIComponent(sessionKey)}.json`);
+}
+
+// Binds the ciphertext to its profile and session
+function cacheKey(profileId: string, sessionKey: string): string {
+  return `messages/${profileId}/${sessionKey}`;
+}
+
+function writeSession(profileId: string, sessionKey: string, json: string) {
+  const key = cacheKey(profileId, sessionKey);
+  pendingWrites[key] = (pendingWrites[key] ?? Promise.resolve())
+    .then(async () => {
+      const encrypted = await encryptValue(key, json);
+      sessionFile(profileId, sessionKey).write(encrypted);
+    })
+    .catch(err => console.warn('[MessageCache] Failed to save session:', sessionKey, err));
+}
+
+export const MessageCache = {
+  load: async (sessionKey: string): Promise<UIMessage[]> => {
+    const profileId = currentProfileId();
+    const key = cacheKey(profileId, sessionKey);
+    try {
+      await pendingWrites[key];
+      const file = sessionFile(profileId, sessionKey);
+      if (!file.exists) return [];
+      const stored = await file.text();
+      if (!isEncryptedValue(stored)) {
+        // Plaintext from an older version: keep it and re-save encrypted
+        writeSession(profileId, sessionKey, stored);
+        return JSON.parse(stored) as UIMessage[];
+      }
+      const json = await decryptValue(key, stored);
+      if (json === null) {
+        // Encrypted with a key this install doesn't have (e.g. restored from a backup)
+        file.delete();
+        return [];
+      }
+      return JSON.parse(json) as UIMessage[];
+    } catch (err) {
+      console.warn('[MessageCache] Failed to load session:', sessionKey, err);
+      return [];
+    }
+  },
+
+  save: (sessionKey: string, messages: UIMessage[]) => {
+    writeSession(currentProfileId(), sessionKey, JSON.stringify(messages.slice(-MAX_CACHED_MESSAGES)));
+  },
+
+  remove: (sessionKey: string) => {
+    const profileId = currentProfileId();
+    const key = cacheKey(profileId, sessionKey);
+    // Let a pending save land first so it can't recreate the file
+    pendingWrites[key] = (pendingWrites[key] ?? Promise.resolve()).then(() => {
+      try {
+        const file = sessionFile(profileId, sessionKey);
+        if (file.exists) file.delete();
+      } catch {
+        // Ignore cleanup errors
+      }
+    });
+  },
+
+  // Drop every cached session of a gateway profile
+  clearProfile: (profileId: string) => {
+    try {
+      const dir = profileDirectory(profileId);
+      if (dir.exists) dir.delete();
+    } catch {
+      // Ignore cleanup errors
+    }
+  },
+};
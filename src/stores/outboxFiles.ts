@@ -0,0 +1,83 @@
+/**
+ * Attachment files of queued messages
+ * Outbox items only keep file URIs (storage rows are size-limited, ~2 MB on
+ * Android); the content lives encrypted in documents/outbox/<itemId>/ until
+ * the item is sent or removed
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+import { encryptBytes, decryptBytes, fromBase64, toBase64 } from './encryption';
+import type { PickedAttachment } from '../types';
+
+function itemDirectory(itemId: string): Directory {
+  return new Directory(Paths.document, 'outbox', itemId);
+}
+
+function extensionOf(uri: string): string {
+  const match = /\.[a-z0-9]+$/i.exec(uri.split('?')[0]);
+  return match ? match[0] : '';
+}
+
+// Binds the ciphertext to its item and file (URIs can change between app updates on iOS)
+function fileKey(file: File): string {
+  const parts = file.uri.split('/').filter(Boolean);
+  return `outbox/${parts.slice(-2).join('/')}`;
+}
+
+async function decryptFile(uri: string): Promise<Uint8Array> {
+  const file = new File(uri);
+  const data = await decryptBytes(fileKey(file), await file.bytes());
+  if (!data) throw new Error('Queued attachment could not be decrypted');
+  return data;
+}
+
+export const OutboxFiles = {
+  // Encrypt attachment content into the item's directory; returns the attachments pointing there (without base64)
+  store: async (itemId: string, attachments: PickedAttachment[]): Promise<PickedAttachment[]> => {
+    if (attachments.length === 0) return attachments;
+    const dir = itemDirectory(itemId);
+    return Promise.all(attachments.map(async (att, i) => {
+      try {
+        if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+        const file = new File(dir, `${i}${extensionOf(att.fileName ?? att.uri)}`);
+        const content = att.base64 ? fromBase64(att.base64) : await new File(att.uri).bytes();
+        const encrypted = await encryptBytes(fileKey(file), content);
+        if (file.exists) file.delete();
+        file.write(encrypted);
+        const { base64: _base64, ...rest } = att;
+        return { ...rest, uri: file.uri };
+      } catch (err) {
+        console.warn('[OutboxFiles] Failed to store attachment:', itemId, err);
+        return att;
+      }
+    }));
+  },
+
+  // Attachments with their content inlined for sending
+  load: (attachments: PickedAttachment[]): Promise<PickedAttachment[]> =>
+    Promise.all(attachments.map(async att => {
+      if (att.base64) return att;
+      return { ...att, base64: toBase64(await decryptFile(att.uri)) };
+    })),
+
+  // Decrypt to plain files in the cache directory (not backed up), e.g. to hand
+  // a cancelled item back to the composer
+  restore: (attachments: PickedAttachment[]): Promise<PickedAttachment[]> =>
+    Promise.all(attachments.map(async att => {
+      if (att.base64) return att;
+      const dir = new Directory(Paths.cache, 'attachments');
+      if (!dir.exists) dir.create({ intermediates: true, idempotent: true });
+      const file = new File(dir, `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}${extensionOf(att.uri)}`);
+      file.write(await decryptFile(att.uri));
+      return { ...att, uri: file.uri };
+    })),
+
+  remove: (itemId: string) => {
+    try {
+      const dir = itemDirectory(itemId);
+      if (dir.exists) dir.delete();
+    } catch {
+      // Ignore cleanup errors
+    }
+  },
+};
@@ -5,18 +5,24 @@
  * - Theme mode (light/dark/frost-light/frost-dark/system)
  * - Accent color (green/blue/purple/orange/pink/red/cyan)
  * - Text size (small/medium/large/xlarge)
- * - Connection state
+ * - Image attachment processing (max dimension, format)
+ * - Connection state and saved gateway profiles
+ * - Notification rules (sound, vibration, quiet hours, kinds, keywords)
+ * - App lock and its auto-lock timeout
  */
 
 import React, { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from 'react';
 import { useColorScheme, Appearance } from 'react-native';
-import { StorageHelpers, TEXT_SIZE_MAP, type TextSize } from './storage';
+import { StorageHelpers, TEXT_SIZE_MAP, type TextSize, type ImageFormat } from './storage';
+import { MessageCache } from './messageCache';
+import { OutboxFiles } from './outboxFiles';
 import {
   getTheme,
   type Theme,
   type ThemeMode,
   type AccentColorName,
 } from '../theme/colors';
+import type { GatewayProfile, NotificationPreferences } from '../types';
 
 interface SettingsContextValue {
   // Theme
@@ -38,19 +44,36 @@ interface SettingsContextValue {
   // Connection
   gatewayUrl: string;
   authToken: string;
-  setConnection: (url: string, token: string) => void;
+  setConnection: (url: string, token: string, name?: string) => void;
   clearConnection: () => void;
   isConnected: boolean;
   
+  // Connection profiles
+  profiles: GatewayProfile[];
+  activeProfileId: string | null;
+  switchProfile: (profileId: string) => void;
+  deleteProfile: (profileId: string) => void;
+  
   // Sound & Notifications
   soundEffectsEnabled: boolean;
   setSoundEffectsEnabled: (enabled: boolean) => void;
   notificationsEnabled: boolean;
   setNotificationsEnabled: (enabled: boolean) => void;
+  notificationPreferences: NotificationPreferences;
+  updateNotificationPreferences: (changes: Partial<NotificationPreferences>) => void;
+  
+  // Image attachments
+  imageMaxDimension: number;
+  setImageMaxDimension: (dimension: number) => void;
+  imageFormat: ImageFormat;
+  setImageFormat: (format: ImageFormat) => void;
   
   // Security
   biometricLockEnabled: boolean;
   setBiometricLockEnabled: (enabled: boolean) => void;
+  // Seconds in the background before the app locks again
+  autoLockTimeout: number;
+  setAutoLockTimeout: (seconds: number) => void;
 }
 
 const SettingsContext = createContext<SettingsContextValue | null>(null);
@@ -68,13 +91,20 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
   const [textSize, setTextSizeState] = useState<TextSize>(() => StorageHelpers.getTextSize());
   const [gatewayUrl, setGatewayUrl] = useState(() => StorageHelpers.getGatewayUrl());
   const [authToken, setAuthToken] = useState(() => StorageHelpers.getAuthToken());
+  const [profiles, setProfiles] = useState<GatewayProfile[]>(() => StorageHelpers.getProfiles());
+  const [activeProfileId, setActiveProfileId] = useState(() => StorageHelpers.getActiveProfileId());
   
   // Sound & Notifications
   const [soundEffectsEnabled, setSoundEffectsEnabledState] = useState(() => StorageHelpers.getSoundEffectsEnabled());
-  const [notificationsEnabled, setNotificationsEnabledState] = useState(() => StorageHelpers.getNotificationsEnabled());
+  const [notificationPreferences, setNotificationPreferences] = useState(() => StorageHelpers.getNotificationPreferences());
+  
+  // Image attachments
+  const [imageMaxDimension, setImageMaxDimensionState] = useState(() => StorageHelpers.getImageMaxDimension());
+  const [imageFormat, setImageFormatState] = useState<ImageFormat>(() => StorageHelpers.getImageFormat());
   
   // Security
   const [biometricLockEnabled, setBiometricLockEnabledState] = useState(() => StorageHelpers.getBiometricLockEnabled());
+  const [autoLockTimeout, setAutoLockTimeoutState] = useState(() => StorageHelpers.getAutoLockTimeout());
   
   // Track system color scheme changes
   const [currentSystemScheme, setCurrentSystemScheme] = useState(systemColorScheme);
@@ -117,31 +147,86 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     StorageHelpers.setTextSize(size);
   }, []);
   
-  // Connection setter with persistence
-  const setConnection = useCallback((url: string, token: string) => {
-    setGatewayUrl(url);
-    setAuthToken(token);
-    StorageHelpers.setGatewayUrl(url);
-    StorageHelpers.setAuthToken(token);
+  // Activate a saved profile and expose its connection
+  const applyProfile = useCallback((profileId: string) => {
+    const profile = StorageHelpers.activateProfile(profileId);
+    if (!profile) return;
+    setGatewayUrl(profile.url);
+    setAuthToken(profile.token);
+    setActiveProfileId(profile.id);
+    setProfiles(StorageHelpers.getProfiles());
   }, []);
   
-  // Clear connection
+  // Connection setter with persistence (reuses the profile for the same URL)
+  const setConnection = useCallback((url: string, token: string, name?: string) => {
+    const existing = StorageHelpers.getProfiles().find(p => p.url === url);
+    const profile = StorageHelpers.saveProfile({
+      id: existing?.id,
+      name: name?.trim() || existing?.name || url.replace(/^wss?:\/\//, ''),
+      url,
+      token,
+    });
+    applyProfile(profile.id);
+  }, [applyProfile]);
+  
+  // Clear connection (saved profiles are kept)
   const clearConnection = useCallback(() => {
     setGatewayUrl('');
     setAuthToken('');
+    setActiveProfileId(null);
     StorageHelpers.clearConnection();
   }, []);
   
+  // Switch to another saved profile without logging out
+  const switchProfile = useCallback((profileId: string) => {
+    if (profileId === StorageHelpers.getActiveProfileId()) return;
+    applyProfile(profileId);
+  }, [applyProfile]);
+  
+  // Delete a saved profile and its caches
+  const deleteProfile = useCallback((profileId: string) => {
+    const wasActive = profileId === StorageHelpers.getActiveProfileId();
+    StorageHelpers.getOutbox(profileId).forEach(item => OutboxFiles.remove(item.id));
+    StorageHelpers.deleteProfile(profileId);
+    MessageCache.clearProfile(profileId);
+    setProfiles(StorageHelpers.getProfiles());
+    if (wasActive) {
+      setGatewayUrl('');
+      setAuthToken('');
+      setActiveProfileId(null);
+    }
+  }, []);
+  
   // Sound effects setter with persistence
   const setSoundEffectsEnabled = useCallback((enabled: boolean) => {
     setSoundEffectsEnabledState(enabled);
     StorageHelpers.setSoundEffectsEnabled(enabled);
   }, []);
   
+  // Notification rules setter with persistence
+  const updateNotificationPreferences = useCallback((changes: Partial<NotificationPreferences>) => {
+    setNotificationPreferences(prev => {
+      const next = { ...prev, ...changes };
+      StorageHelpers.setNotificationPreferences(next);
+      return next;
+    });
+  }, []);
+  
   // Notifications setter with persistence
   const setNotificationsEnabled = useCallback((enabled: boolean) => {
-    setNotificationsEnabledState(enabled);
-    StorageHelpers.setNotificationsEnabled(enabled);
+    updateNotificationPreferences({ enabled });
+  }, [updateNotificationPreferences]);
+  
+  // Image max dimension setter with persistence
+  const setImageMaxDimension = useCallback((dimension: number) => {
+    setImageMaxDimensionState(dimension);
+    StorageHelpers.setImageMaxDimension(dimension);
+  }, []);
+  
+  // Image format setter with persistence
+  const setImageFormat = useCallback((format: ImageFormat) => {
+    setImageFormatState(format);
+    StorageHelpers.setImageFormat(format);
   }, []);
   
   // Biometric lock setter with persistence
@@ -150,6 +235,12 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     StorageHelpers.setBiometricLockEnabled(enabled);
   }, []);
   
+  // Auto-lock timeout setter with persistence
+  const setAutoLockTimeout = useCallback((seconds: number) => {
+    setAutoLockTimeoutState(seconds);
+    StorageHelpers.setAutoLockTimeout(seconds);
+  }, []);
+  
   const value: SettingsContextValue = {
     themeMode,
     setThemeMode,
@@ -166,12 +257,24 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     setConnection,
     clearConnection,
     isConnected: Boolean(gatewayUrl),
+    profiles,
+    activeProfileId,
+    switchProfile,
+    deleteProfile,
     soundEffectsEnabled,
     setSoundEffectsEnabled,
-    notificationsEnabled,
+    notificationsEnabled: notificationPreferences.enabled,
     setNotificationsEnabled,
+    notificationPreferences,
+    updateNotificationPreferences,
+    imageMaxDimension,
+    setImageMaxDimension,
+    imageFormat,
+    setImageFormat,
     biometricLockEnabled,
     setBiometricLockEnabled,
+    autoLockTimeout,
+    setAutoLockTimeout,
   };
   
   return (
@@ -190,4 +293,4 @@ export function useSettings() {
 }
 
 // Re-export types for convenience
-export type { TextSize, ThemeMode, AccentColorName };
+export type { TextSize, ThemeMode, AccentColorName, ImageFormat };
@@ -1,10 +1,13 @@
 /**
  * Persistent storage for CamiApp
  * Uses AsyncStorage (Expo Go compatible) with sync cache layer
+ * Sensitive keys (token, profiles, caches, queued and saved messages) are encrypted at rest, see ./encryption
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { encryptValue, decryptValue, isEncryptedValue } from './encryption';
 import type { AccentColorName, ThemeMode } from '../theme/colors';
+import type { GatewayProfile, OutboxItem, VersionGroup, SessionBranch, Persona, SessionPersona, Snippet, SessionDraft, SavedMessage, ReadMarker, NotificationPreferences } from '../types';
 
 // Sync cache interface (same shape as MMKV for compatibility)
 interface StorageInterface {
@@ -15,18 +18,65 @@ interface StorageInterface {
 
 // Sync cache backed by AsyncStorage
 const syncCache: Record<string, string | undefined> = {};
-let cacheLoaded = false;
 
-// Load all keys from AsyncStorage into sync cache on startup
-AsyncStorage.getAllKeys().then(async (keys) => {
+// Encrypted writes per key, chained so they land in order
+const pendingWrites: Record<string, Promise<void>> = {};
+
+// Persist a sensitive value encrypted (never in plaintext, even if encryption fails)
+function persistEncrypted(key: string, value: string | null) {
+  const write = async () => {
+    if (value === null) {
+      await AsyncStorage.removeItem(key);
+      return;
+    }
+    await AsyncStorage.setItem(key, await encryptValue(key, value));
+  };
+  pendingWrites[key] = (pendingWrites[key] ?? Promise.resolve())
+    .then(write)
+    .catch(error => console.warn('[Storage] Encrypted write failed:', key, error));
+}
+
+// Cache a sensitive value read from AsyncStorage (throws when the keystore can't be read)
+async function loadSensitive(key: string, stored: string) {
+  if (!isEncryptedValue(stored)) {
+    // Plaintext from an older install: keep it and re-save encrypted
+    syncCache[key] = stored;
+    persistEncrypted(key, stored);
+    return;
+  }
+  const value = await decryptValue(key, stored);
+  if (value !== null) {
+    syncCache[key] = value;
+  } else {
+    // Encrypted with a key this install doesn't have (e.g. restored from a backup)
+    console.warn('[Storage] Dropping value encrypted with another key:', key);
+    AsyncStorage.removeItem(key).catch(() => {});
+  }
+}
+
+/**
+ * Load all keys into the sync cache, decrypting sensitive ones in parallel.
+ * Rejects when storage or the keystore can't be read, so the app doesn't run
+ * as if the data were missing (e.g. logged out); call again to retry.
+ */
+export async function loadStorage(): Promise<void> {
+  const keys = await AsyncStorage.getAllKeys();
   if (keys.length > 0) {
     const pairs = await AsyncStorage.multiGet(keys);
-    for (const [key, value] of pairs) {
-      if (value !== null) syncCache[key] = value;
-    }
+    await Promise.all(pairs.map(async ([key, value]) => {
+      if (value === null) return;
+      if (isSensitiveKey(key)) {
+        await loadSensitive(key, value);
+      } else {
+        syncCache[key] = value;
+      }
+    }));
   }
-  cacheLoaded = true;
-}).catch(() => { cacheLoaded = true; });
+  migrateLegacyConnection();
+}
+
+// First load, started at import
+export const storageReady: Promise<void> = loadStorage();
 
 function getStorage(): StorageInterface {
   return {
@@ -34,11 +84,19 @@ function getStorage(): StorageInterface {
     set: (key: string, value: string | number | boolean) => {
       const strValue = String(value);
       syncCache[key] = strValue;
-      AsyncStorage.setItem(key, strValue).catch(() => {});
+      if (isSensitiveKey(key)) {
+        persistEncrypted(key, strValue);
+      } else {
+        AsyncStorage.setItem(key, strValue).catch(() => {});
+      }
     },
     delete: (key: string) => {
       delete syncCache[key];
-      AsyncStorage.removeItem(key).catch(() => {});
+      if (isSensitiveKey(key)) {
+        persistEncrypted(key, null);
+      } else {
+        AsyncStorage.removeItem(key).catch(() => {});
+      }
     },
   };
 }
@@ -56,6 +114,10 @@ export const StorageKeys = {
   GATEWAY_URL: 'gateway_url',
   AUTH_TOKEN: 'auth_token',
   
+  // Connection profiles (JSON array of GatewayProfile)
+  GATEWAY_PROFILES: 'gateway_profiles',
+  ACTIVE_PROFILE_ID: 'active_profile_id',
+  
   // Appearance preferences
   THEME: 'theme', // ThemeMode: 'light' | 'dark' | 'frost-light' | 'frost-dark' | 'system'
   ACCENT_COLOR: 'accent_color', // AccentColorName: 'green' | 'blue' | 'purple' | etc.
@@ -71,7 +133,34 @@ export const StorageKeys = {
   // Session cache (JSON)
   SESSIONS_CACHE: 'sessions_cache',
   
-  // Unread tracking (JSON object: { sessionKey: lastReadMessageId })
+  // Composer drafts (JSON object: { sessionKey: SessionDraft })
+  DRAFTS: 'drafts',
+  
+  // Offline outbox (JSON array of OutboxItem)
+  OUTBOX: 'outbox',
+  
+  // Branched sessions (JSON object: { sessionKey: SessionBranch })
+  SESSION_BRANCHES: 'session_branches',
+  
+  // Personas (JSON array of user-defined Persona / JSON object: { sessionKey: SessionPersona })
+  CUSTOM_PERSONAS: 'custom_personas',
+  SESSION_PERSONAS: 'session_personas',
+  
+  // Snippet library (JSON array of Snippet)
+  SNIPPETS: 'snippets',
+  
+  // Starred messages across sessions (JSON array of SavedMessage)
+  SAVED_MESSAGES: 'saved_messages',
+  
+  // Models (default model id / JSON object: { sessionKey: modelId } / JSON object: { sessionKey: { messageId: modelId } })
+  DEFAULT_MODEL: 'default_model',
+  SESSION_MODELS: 'session_models',
+  MESSAGE_MODELS: 'message_models',
+  
+  // Reply versions (JSON object: { sessionKey: VersionGroup[] })
+  REPLY_VERSIONS: 'reply_versions',
+  
+  // Unread tracking (JSON object: { sessionKey: ReadMarker })
   LAST_READ_MESSAGES: 'last_read_messages',
   
   // Smart titles cache (JSON object: { sessionKey: title })
@@ -80,9 +169,25 @@ export const StorageKeys = {
   // Sound & Notifications
   SOUND_EFFECTS_ENABLED: 'sound_effects_enabled',
   NOTIFICATIONS_ENABLED: 'notifications_enabled',
+  // Notification rules besides the on/off switch (JSON, see NotificationPreferences)
+  NOTIFICATION_PREFERENCES: 'notification_preferences',
+  
+  // Muted sessions (JSON object: { sessionKey: mutedUntil timestamp, or null for until unmuted })
+  MUTED_SESSIONS: 'muted_sessions',
+  
+  // Notification responses already acted on (JSON array of "notificationId:actionId", newest last)
+  HANDLED_NOTIFICATION_RESPONSES: 'handled_notification_responses',
+  
+  // Image attachments
+  IMAGE_MAX_DIMENSION: 'image_max_dimension',
+  IMAGE_FORMAT: 'image_format',
   
   // Security
   BIOMETRIC_LOCK_ENABLED: 'biometric_lock_enabled',
+  // Seconds in the background before the app locks again
+  AUTO_LOCK_TIMEOUT: 'auto_lock_timeout',
+  // App PIN (JSON: { salt, hash }) saved by older versions; now kept in SecureStore, see services/appLock
+  APP_PIN: 'app_pin',
 } as const;
 
 // Valid values
@@ -92,6 +197,117 @@ const VALID_TEXT_SIZES = ['small', 'medium', 'large', 'xlarge'] as const;
 
 export type TextSize = (typeof VALID_TEXT_SIZES)[number];
 
+export const IMAGE_MAX_DIMENSIONS = [1024, 1600, 2048, 4096] as const;
+const VALID_IMAGE_FORMATS = ['jpeg', 'webp'] as const;
+const DEFAULT_IMAGE_MAX_DIMENSION = 2048;
+
+export type ImageFormat = (typeof VALID_IMAGE_FORMATS)[number];
+
+export const AUTO_LOCK_TIMEOUTS = [0, 60, 300, 900, 3600] as const;
+const DEFAULT_AUTO_LOCK_TIMEOUT = 60;
+
+// Enough to cover every notification still in the tray
+const MAX_HANDLED_NOTIFICATION_RESPONSES = 100;
+
+const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  enabled: true,
+  soundEnabled: true,
+  vibrationEnabled: true,
+  quietHours: { enabled: false, start: 22 * 60, end: 7 * 60 },
+  kinds: [],
+  keywords: [],
+};
+
+// Keys whose values belong to a single gateway profile
+const PROFILE_SCOPED_KEYS: string[] = [
+  StorageKeys.LAST_SESSION_KEY,
+  StorageKeys.PINNED_SESSIONS,
+  StorageKeys.SESSIONS_CACHE,
+  StorageKeys.SMART_TITLES_CACHE,
+  StorageKeys.OUTBOX,
+  StorageKeys.DRAFTS,
+  StorageKeys.REPLY_VERSIONS,
+  StorageKeys.SESSION_BRANCHES,
+  StorageKeys.SESSION_PERSONAS,
+  StorageKeys.DEFAULT_MODEL,
+  StorageKeys.SESSION_MODELS,
+  StorageKeys.MESSAGE_MODELS,
+  StorageKeys.SAVED_MESSAGES,
+  StorageKeys.LAST_READ_MESSAGES,
+  StorageKeys.MUTED_SESSIONS,
+];
+
+// Keys encrypted at rest (including their profile-scoped variants)
+const SENSITIVE_KEYS: string[] = [
+  StorageKeys.AUTH_TOKEN,
+  StorageKeys.GATEWAY_PROFILES,
+  StorageKeys.SESSIONS_CACHE,
+  StorageKeys.SMART_TITLES_CACHE,
+  StorageKeys.OUTBOX,
+  StorageKeys.DRAFTS,
+  StorageKeys.SAVED_MESSAGES,
+  StorageKeys.APP_PIN,
+];
+
+function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_KEYS.includes(key.split('@')[0]);
+}
+
+/**
+ * Resolve a storage key for the active profile.
+ * Profile-scoped keys are suffixed with the profile id (e.g. `sessions_cache@p-abc`),
+ * so each gateway keeps its own caches.
+ */
+export function profileKey(key: string, profileId = storage.getString(StorageKeys.ACTIVE_PROFILE_ID)): string {
+  if (!profileId || !PROFILE_SCOPED_KEYS.includes(key)) return key;
+  return `${key}@${profileId}`;
+}
+
+function parseProfiles(json: string | undefined): GatewayProfile[] {
+  if (!json) return [];
+  try {
+    return JSON.parse(json) as GatewayProfile[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Move a pre-profiles install (single GATEWAY_URL / AUTH_TOKEN pair) into a
+ * "Default" profile, carrying its unscoped caches over. Runs once after
+ * loading; the stored profile list (empty without a legacy connection)
+ * records that it ran.
+ */
+function migrateLegacyConnection(): void {
+  if (storage.getString(StorageKeys.GATEWAY_PROFILES) !== undefined) return;
+  
+  const url = storage.getString(StorageKeys.GATEWAY_URL);
+  if (!url) {
+    storage.set(StorageKeys.GATEWAY_PROFILES, JSON.stringify([]));
+    return;
+  }
+  
+  const profile: GatewayProfile = {
+    id: `p-${Date.now().toString(36)}`,
+    name: 'Default',
+    url,
+    token: storage.getString(StorageKeys.AUTH_TOKEN) ?? '',
+    createdAt: Date.now(),
+    lastUsedAt: Date.now(),
+  };
+  
+  for (const key of PROFILE_SCOPED_KEYS) {
+    const value = storage.getString(key);
+    if (value !== undefined) {
+      storage.set(profileKey(key, profile.id), value);
+      storage.delete(key);
+    }
+  }
+  
+  storage.set(StorageKeys.GATEWAY_PROFILES, JSON.stringify([profile]));
+  storage.set(StorageKeys.ACTIVE_PROFILE_ID, profile.id);
+}
+
 // Type-safe getters and setters
 export const StorageHelpers = {
   // Onboarding
@@ -105,9 +321,59 @@ export const StorageHelpers = {
   getAuthToken: () => storage.getString(StorageKeys.AUTH_TOKEN) ?? '',
   setAuthToken: (token: string) => storage.set(StorageKeys.AUTH_TOKEN, token),
   
+  // Deactivates the current profile; saved profiles are kept for reconnecting
   clearConnection: () => {
     storage.delete(StorageKeys.GATEWAY_URL);
     storage.delete(StorageKeys.AUTH_TOKEN);
+    storage.delete(StorageKeys.ACTIVE_PROFILE_ID);
+  },
+  
+  // Connection profiles
+  getProfiles: (): GatewayProfile[] => parseProfiles(storage.getString(StorageKeys.GATEWAY_PROFILES)),
+  setProfiles: (profiles: GatewayProfile[]) => {
+    storage.set(StorageKeys.GATEWAY_PROFILES, JSON.stringify(profiles));
+  },
+  getActiveProfileId: (): string | null => storage.getString(StorageKeys.ACTIVE_PROFILE_ID) ?? null,
+  getActiveProfile: (): GatewayProfile | null => {
+    const id = StorageHelpers.getActiveProfileId();
+    return StorageHelpers.getProfiles().find(p => p.id === id) ?? null;
+  },
+  saveProfile: (profile: Omit<GatewayProfile, 'id' | 'createdAt'> & { id?: string }): GatewayProfile => {
+    const profiles = StorageHelpers.getProfiles();
+    const index = profile.id ? profiles.findIndex(p => p.id === profile.id) : -1;
+    
+    const saved: GatewayProfile = index >= 0
+      ? { ...profiles[index], ...profile, id: profiles[index].id }
+      : { ...profile, id: `p-${Date.now().toString(36)}`, createdAt: Date.now() };
+    
+    if (index >= 0) {
+      profiles[index] = saved;
+    } else {
+      profiles.push(saved);
+    }
+    StorageHelpers.setProfiles(profiles);
+    return saved;
+  },
+  activateProfile: (profileId: string): GatewayProfile | null => {
+    const profiles = StorageHelpers.getProfiles();
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return null;
+    
+    profile.lastUsedAt = Date.now();
+    StorageHelpers.setProfiles(profiles);
+    storage.set(StorageKeys.ACTIVE_PROFILE_ID, profile.id);
+    storage.set(StorageKeys.GATEWAY_URL, profile.url);
+    storage.set(StorageKeys.AUTH_TOKEN, profile.token);
+    return profile;
+  },
+  deleteProfile: (profileId: string) => {
+    StorageHelpers.setProfiles(StorageHelpers.getProfiles().filter(p => p.id !== profileId));
+    for (const key of PROFILE_SCOPED_KEYS) {
+      storage.delete(profileKey(key, profileId));
+    }
+    if (storage.getString(StorageKeys.ACTIVE_PROFILE_ID) === profileId) {
+      StorageHelpers.clearConnection();
+    }
   },
   
   // Appearance preferences
@@ -139,11 +405,11 @@ export const StorageHelpers = {
   setTextSize: (size: TextSize) => storage.set(StorageKeys.TEXT_SIZE, size),
   
   // Session management
-  getLastSessionKey: () => storage.getString(StorageKeys.LAST_SESSION_KEY) ?? 'main',
-  setLastSessionKey: (key: string) => storage.set(StorageKeys.LAST_SESSION_KEY, key),
+  getLastSessionKey: () => storage.getString(profileKey(StorageKeys.LAST_SESSION_KEY)) ?? 'main',
+  setLastSessionKey: (key: string) => storage.set(profileKey(StorageKeys.LAST_SESSION_KEY), key),
   
   getPinnedSessions: (): string[] => {
-    const json = storage.getString(StorageKeys.PINNED_SESSIONS);
+    const json = storage.getString(profileKey(StorageKeys.PINNED_SESSIONS));
     if (!json) return [];
     try {
       return JSON.parse(json) as string[];
@@ -152,7 +418,7 @@ export const StorageHelpers = {
     }
   },
   setPinnedSessions: (sessions: string[]) => {
-    storage.set(StorageKeys.PINNED_SESSIONS, JSON.stringify(sessions));
+    storage.set(profileKey(StorageKeys.PINNED_SESSIONS), JSON.stringify(sessions));
   },
   togglePinnedSession: (sessionKey: string) => {
     const pinned = StorageHelpers.getPinnedSessions();
@@ -166,9 +432,34 @@ export const StorageHelpers = {
     return pinned;
   },
   
+  // Drop everything stored locally about a session (after it was deleted on the gateway)
+  forgetSession: (sessionKey: string) => {
+    StorageHelpers.setPinnedSessions(StorageHelpers.getPinnedSessions().filter(k => k !== sessionKey));
+    StorageHelpers.setReplyVersions(sessionKey, []);
+    StorageHelpers.removeSmartTitle(sessionKey);
+    StorageHelpers.removeReadMarker(sessionKey);
+    StorageHelpers.unmuteSession(sessionKey);
+    
+    StorageHelpers.removeSessionPersona(sessionKey);
+    StorageHelpers.setDraft(sessionKey, null);
+    StorageHelpers.setSessionModel(sessionKey, null);
+    StorageHelpers.setMessageModels(sessionKey, {});
+    
+    const branches = StorageHelpers.getSessionBranches();
+    if (branches[sessionKey]) {
+      delete branches[sessionKey];
+      storage.set(profileKey(StorageKeys.SESSION_BRANCHES), JSON.stringify(branches));
+    }
+    
+    const cached = StorageHelpers.getSessionsCache() as { key: string }[] | null;
+    if (cached) {
+      StorageHelpers.setSessionsCache(cached.filter(s => s.key !== sessionKey));
+    }
+  },
+  
   // Sessions cache
   getSessionsCache: () => {
-    const json = storage.getString(StorageKeys.SESSIONS_CACHE);
+    const json = storage.getString(profileKey(StorageKeys.SESSIONS_CACHE));
     if (!json) return null;
     try {
       return JSON.parse(json);
@@ -177,12 +468,148 @@ export const StorageHelpers = {
     }
   },
   setSessionsCache: (sessions: unknown) => {
-    storage.set(StorageKeys.SESSIONS_CACHE, JSON.stringify(sessions));
+    storage.set(profileKey(StorageKeys.SESSIONS_CACHE), JSON.stringify(sessions));
   },
   
-  // Unread tracking
-  getLastReadMessages: (): Record<string, string> => {
-    const json = storage.getString(StorageKeys.LAST_READ_MESSAGES);
+  // Offline outbox
+  getOutbox: (profileId?: string): OutboxItem[] => {
+    const json = storage.getString(profileKey(StorageKeys.OUTBOX, profileId));
+    if (!json) return [];
+    try {
+      return JSON.parse(json) as OutboxItem[];
+    } catch {
+      return [];
+    }
+  },
+  setOutbox: (items: OutboxItem[]) => {
+    if (items.length === 0) {
+      storage.delete(profileKey(StorageKeys.OUTBOX));
+      return;
+    }
+    storage.set(profileKey(StorageKeys.OUTBOX), JSON.stringify(items));
+  },
+  
+  // Composer drafts
+  getDrafts: (profileId?: string): Record<string, SessionDraft> => {
+    const json = storage.getString(profileKey(StorageKeys.DRAFTS, profileId));
+    if (!json) return {};
+    try {
+      return JSON.parse(json) as Record<string, SessionDraft>;
+    } catch {
+      return {};
+    }
+  },
+  getDraft: (sessionKey: string): SessionDraft | null => {
+    return StorageHelpers.getDrafts()[sessionKey] ?? null;
+  },
+  // Empty drafts are removed
+  setDraft: (sessionKey: string, draft: SessionDraft | null, profileId?: string) => {
+    const current = StorageHelpers.getDrafts(profileId);
+    if (draft && (draft.text.trim() || draft.attachments?.length)) {
+      current[sessionKey] = draft;
+    } else if (current[sessionKey]) {
+      delete current[sessionKey];
+    } else {
+      return;
+    }
+    storage.set(profileKey(StorageKeys.DRAFTS, profileId), JSON.stringify(current));
+  },
+  
+  // Branched sessions
+  getSessionBranches: (): Record<string, SessionBranch> => {
+    const json = storage.getString(profileKey(StorageKeys.SESSION_BRANCHES));
+    if (!json) return {};
+    try {
+      return JSON.parse(json) as Record<string, SessionBranch>;
+    } catch {
+      return {};
+    }
+  },
+  getSessionBranch: (sessionKey: string): SessionBranch | null => {
+    return StorageHelpers.getSessionBranches()[sessionKey] ?? null;
+  },
+  setSessionBranch: (sessionKey: string, branch: SessionBranch) => {
+    const current = StorageHelpers.getSessionBranches();
+    current[sessionKey] = branch;
+    storage.set(profileKey(StorageKeys.SESSION_BRANCHES), JSON.stringify(current));
+  },
+  
+  // Personas
+  getCustomPersonas: (): Persona[] => {
+    const json = storage.getString(StorageKeys.CUSTOM_PERSONAS);
+    if (!json) return [];
+    try {
+      return JSON.parse(json) as Persona[];
+    } catch {
+      return [];
+    }
+  },
+  setCustomPersonas: (personas: Persona[]) => {
+    storage.set(StorageKeys.CUSTOM_PERSONAS, JSON.stringify(personas));
+  },
+  getSessionPersonas: (): Record<string, SessionPersona> => {
+    const json = storage.getString(profileKey(StorageKeys.SESSION_PERSONAS));
+    if (!json) return {};
+    try {
+      return JSON.parse(json) as Record<string, SessionPersona>;
+    } catch {
+      return {};
+    }
+  },
+  getSessionPersona: (sessionKey: string): SessionPersona | null => {
+    return StorageHelpers.getSessionPersonas()[sessionKey] ?? null;
+  },
+  setSessionPersona: (sessionKey: string, persona: SessionPersona) => {
+    const current = StorageHelpers.getSessionPersonas();
+    current[sessionKey] = persona;
+    storage.set(profileKey(StorageKeys.SESSION_PERSONAS), JSON.stringify(current));
+  },
+  removeSessionPersona: (sessionKey: string) => {
+    const current = StorageHelpers.getSessionPersonas();
+    if (!current[sessionKey]) return;
+    delete current[sessionKey];
+    storage.set(profileKey(StorageKeys.SESSION_PERSONAS), JSON.stringify(current));
+  },
+  
+  // Snippet library (null until the user changes the built-in snippets)
+  getSnippets: (): Snippet[] | null => {
+    const json = storage.getString(StorageKeys.SNIPPETS);
+    if (!json) return null;
+    try {
+      return JSON.parse(json) as Snippet[];
+    } catch {
+      return null;
+    }
+  },
+  setSnippets: (snippets: Snippet[]) => {
+    storage.set(StorageKeys.SNIPPETS, JSON.stringify(snippets));
+  },
+  
+  // Starred messages (newest first)
+  getSavedMessages: (): SavedMessage[] => {
+    const json = storage.getString(profileKey(StorageKeys.SAVED_MESSAGES));
+    if (!json) return [];
+    try {
+      return JSON.parse(json) as SavedMessage[];
+    } catch {
+      return [];
+    }
+  },
+  setSavedMessages: (items: SavedMessage[]) => {
+    storage.set(profileKey(StorageKeys.SAVED_MESSAGES), JSON.stringify(items));
+  },
+  
+  // Models
+  getDefaultModel: (): string | null => storage.getString(profileKey(StorageKeys.DEFAULT_MODEL)) ?? null,
+  setDefaultModel: (modelId: string | null) => {
+    if (modelId) {
+      storage.set(profileKey(StorageKeys.DEFAULT_MODEL), modelId);
+    } else {
+      storage.delete(profileKey(StorageKeys.DEFAULT_MODEL));
+    }
+  },
+  getSessionModels: (): Record<string, string> => {
+    const json = storage.getString(profileKey(StorageKeys.SESSION_MODELS));
     if (!json) return {};
     try {
       return JSON.parse(json) as Record<string, string>;
@@ -190,19 +617,131 @@ export const StorageHelpers = {
       return {};
     }
   },
-  setLastReadMessage: (sessionKey: string, messageId: string) => {
-    const current = StorageHelpers.getLastReadMessages();
-    current[sessionKey] = messageId;
-    storage.set(StorageKeys.LAST_READ_MESSAGES, JSON.stringify(current));
+  getSessionModel: (sessionKey: string): string | null => {
+    return StorageHelpers.getSessionModels()[sessionKey] ?? null;
   },
-  getLastReadMessage: (sessionKey: string): string | null => {
-    const all = StorageHelpers.getLastReadMessages();
-    return all[sessionKey] || null;
+  setSessionModel: (sessionKey: string, modelId: string | null) => {
+    const current = StorageHelpers.getSessionModels();
+    if (modelId) {
+      current[sessionKey] = modelId;
+    } else if (current[sessionKey]) {
+      delete current[sessionKey];
+    } else {
+      return;
+    }
+    storage.set(profileKey(StorageKeys.SESSION_MODELS), JSON.stringify(current));
+  },
+  getAllMessageModels: (): Record<string, Record<string, string>> => {
+    const json = storage.getString(profileKey(StorageKeys.MESSAGE_MODELS));
+    if (!json) return {};
+    try {
+      return JSON.parse(json) as Record<string, Record<string, string>>;
+    } catch {
+      return {};
+    }
+  },
+  getMessageModels: (sessionKey: string): Record<string, string> => {
+    return StorageHelpers.getAllMessageModels()[sessionKey] ?? {};
+  },
+  setMessageModels: (sessionKey: string, models: Record<string, string>) => {
+    const current = StorageHelpers.getAllMessageModels();
+    if (Object.keys(models).length > 0) {
+      current[sessionKey] = models;
+    } else if (current[sessionKey]) {
+      delete current[sessionKey];
+    } else {
+      return;
+    }
+    storage.set(profileKey(StorageKeys.MESSAGE_MODELS), JSON.stringify(current));
+  },
+  
+  // Reply versions
+  getAllReplyVersions: (): Record<string, VersionGroup[]> => {
+    const json = storage.getString(profileKey(StorageKeys.REPLY_VERSIONS));
+    if (!json) return {};
+    try {
+      return JSON.parse(json) as Record<string, VersionGroup[]>;
+    } catch {
+      return {};
+    }
+  },
+  getReplyVersions: (sessionKey: string): VersionGroup[] => {
+    return StorageHelpers.getAllReplyVersions()[sessionKey] ?? [];
+  },
+  setReplyVersions: (sessionKey: string, groups: VersionGroup[]) => {
+    const current = StorageHelpers.getAllReplyVersions();
+    if (groups.length > 0) {
+      current[sessionKey] = groups;
+    } else {
+      delete current[sessionKey];
+    }
+    storage.set(profileKey(StorageKeys.REPLY_VERSIONS), JSON.stringify(current));
+  },
+  
+  // Unread tracking (markers from before message counts were tracked are dropped)
+  getReadMarkers: (): Record<string, ReadMarker> => {
+    const json = storage.getString(profileKey(StorageKeys.LAST_READ_MESSAGES));
+    if (!json) return {};
+    try {
+      const parsed = JSON.parse(json) as Record<string, ReadMarker | string>;
+      const markers: Record<string, ReadMarker> = {};
+      for (const [key, value] of Object.entries(parsed)) {
+        if (value && typeof value === 'object') markers[key] = value;
+      }
+      return markers;
+    } catch {
+      return {};
+    }
+  },
+  setReadMarkers: (markers: Record<string, ReadMarker>) => {
+    storage.set(profileKey(StorageKeys.LAST_READ_MESSAGES), JSON.stringify(markers));
+  },
+  getReadMarker: (sessionKey: string): ReadMarker | null => {
+    return StorageHelpers.getReadMarkers()[sessionKey] ?? null;
+  },
+  setReadMarker: (sessionKey: string, marker: ReadMarker) => {
+    const current = StorageHelpers.getReadMarkers();
+    current[sessionKey] = marker;
+    StorageHelpers.setReadMarkers(current);
+  },
+  removeReadMarker: (sessionKey: string) => {
+    const current = StorageHelpers.getReadMarkers();
+    if (!current[sessionKey]) return;
+    delete current[sessionKey];
+    StorageHelpers.setReadMarkers(current);
+  },
+  
+  // Muted sessions (expired mutes are ignored)
+  getMutedSessions: (): Record<string, number | null> => {
+    const json = storage.getString(profileKey(StorageKeys.MUTED_SESSIONS));
+    if (!json) return {};
+    try {
+      return JSON.parse(json) as Record<string, number | null>;
+    } catch {
+      return {};
+    }
+  },
+  muteSession: (sessionKey: string, until: number | null) => {
+    const current = StorageHelpers.getMutedSessions();
+    current[sessionKey] = until;
+    storage.set(profileKey(StorageKeys.MUTED_SESSIONS), JSON.stringify(current));
+  },
+  unmuteSession: (sessionKey: string) => {
+    const current = StorageHelpers.getMutedSessions();
+    if (!(sessionKey in current)) return;
+    delete current[sessionKey];
+    storage.set(profileKey(StorageKeys.MUTED_SESSIONS), JSON.stringify(current));
+  },
+  isSessionMuted: (sessionKey: string, now = Date.now()): boolean => {
+    const mutes = StorageHelpers.getMutedSessions();
+    if (!(sessionKey in mutes)) return false;
+    const until = mutes[sessionKey];
+    return until === null || until > now;
   },
   
   // Smart titles cache
   getSmartTitlesCache: (): Record<string, string> => {
-    const json = storage.getString(StorageKeys.SMART_TITLES_CACHE);
+    const json = storage.getString(profileKey(StorageKeys.SMART_TITLES_CACHE));
     if (!json) return {};
     try {
       return JSON.parse(json) as Record<string, string>;
@@ -213,12 +752,17 @@ export const StorageHelpers = {
   setSmartTitle: (sessionKey: string, title: string) => {
     const current = StorageHelpers.getSmartTitlesCache();
     current[sessionKey] = title;
-    storage.set(StorageKeys.SMART_TITLES_CACHE, JSON.stringify(current));
+    storage.set(profileKey(StorageKeys.SMART_TITLES_CACHE), JSON.stringify(current));
   },
   getSmartTitle: (sessionKey: string): string | null => {
     const all = StorageHelpers.getSmartTitlesCache();
     return all[sessionKey] || null;
   },
+  removeSmartTitle: (sessionKey: string) => {
+    const current = StorageHelpers.getSmartTitlesCache();
+    delete current[sessionKey];
+    storage.set(profileKey(StorageKeys.SMART_TITLES_CACHE), JSON.stringify(current));
+  },
   
   // Sound effects
   getSoundEffectsEnabled: (): boolean => {
@@ -240,6 +784,65 @@ export const StorageHelpers = {
     storage.set(StorageKeys.NOTIFICATIONS_ENABLED, String(enabled));
   },
   
+  // Notification rules (enabled mirrors the notifications switch)
+  getNotificationPreferences: (): NotificationPreferences => {
+    const enabled = StorageHelpers.getNotificationsEnabled();
+    const json = storage.getString(StorageKeys.NOTIFICATION_PREFERENCES);
+    if (!json) return { ...DEFAULT_NOTIFICATION_PREFERENCES, enabled };
+    try {
+      const stored = JSON.parse(json) as Partial<NotificationPreferences>;
+      return {
+        ...DEFAULT_NOTIFICATION_PREFERENCES,
+        ...stored,
+        quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...stored.quietHours },
+        enabled,
+      };
+    } catch {
+      return { ...DEFAULT_NOTIFICATION_PREFERENCES, enabled };
+    }
+  },
+  setNotificationPreferences: (preferences: NotificationPreferences) => {
+    const { enabled, ...rules } = preferences;
+    StorageHelpers.setNotificationsEnabled(enabled);
+    storage.set(StorageKeys.NOTIFICATION_PREFERENCES, JSON.stringify(rules));
+  },
+  
+  // Notification responses already acted on (survives restarts, so a replayed response isn't handled twice)
+  getHandledNotificationResponses: (): string[] => {
+    const json = storage.getString(StorageKeys.HANDLED_NOTIFICATION_RESPONSES);
+    if (!json) return [];
+    try {
+      return JSON.parse(json) as string[];
+    } catch {
+      return [];
+    }
+  },
+  addHandledNotificationResponse: (id: string) => {
+    const current = StorageHelpers.getHandledNotificationResponses().filter(existing => existing !== id);
+    current.push(id);
+    storage.set(
+      StorageKeys.HANDLED_NOTIFICATION_RESPONSES,
+      JSON.stringify(current.slice(-MAX_HANDLED_NOTIFICATION_RESPONSES)),
+    );
+  },
+  
+  // Image attachments (longest side in px / re-encoding format)
+  getImageMaxDimension: (): number => {
+    const value = Number(storage.getString(StorageKeys.IMAGE_MAX_DIMENSION));
+    return (IMAGE_MAX_DIMENSIONS as readonly number[]).includes(value) ? value : DEFAULT_IMAGE_MAX_DIMENSION;
+  },
+  setImageMaxDimension: (dimension: number) => {
+    storage.set(StorageKeys.IMAGE_MAX_DIMENSION, String(dimension));
+  },
+  getImageFormat: (): ImageFormat => {
+    const format = storage.getString(StorageKeys.IMAGE_FORMAT);
+    if (format && VALID_IMAGE_FORMATS.includes(format as ImageFormat)) {
+      return format as ImageFormat;
+    }
+    return 'jpeg';
+  },
+  setImageFormat: (format: ImageFormat) => storage.set(StorageKeys.IMAGE_FORMAT, format),
+  
   // Biometric lock
   getBiometricLockEnabled: (): boolean => {
     const value = storage.getString(StorageKeys.BIOMETRIC_LOCK_ENABLED);
@@ -249,6 +852,26 @@ export const StorageHelpers = {
   setBiometricLockEnabled: (enabled: boolean) => {
     storage.set(StorageKeys.BIOMETRIC_LOCK_ENABLED, String(enabled));
   },
+  getAutoLockTimeout: (): number => {
+    const value = Number(storage.getString(StorageKeys.AUTO_LOCK_TIMEOUT));
+    return (AUTO_LOCK_TIMEOUTS as readonly number[]).includes(value) ? value : DEFAULT_AUTO_LOCK_TIMEOUT;
+  },
+  setAutoLockTimeout: (seconds: number) => {
+    storage.set(StorageKeys.AUTO_LOCK_TIMEOUT, String(seconds));
+  },
+  // App PIN from older versions (migrated to SecureStore on first read)
+  getLegacyAppPin: (): { salt: string; hash: string } | null => {
+    const json = storage.getString(StorageKeys.APP_PIN);
+    if (!json) return null;
+    try {
+      return JSON.parse(json) as { salt: string; hash: string };
+    } catch {
+      return null;
+    }
+  },
+  clearLegacyAppPin: () => {
+    storage.delete(StorageKeys.APP_PIN);
+  },
 };
 
 // Text size map for styling
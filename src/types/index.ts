@@ -7,6 +7,16 @@ import type { UIMessage, PendingAttachment } from 'expo-openclaw-chat';
 // Re-export SDK types
 export type { UIMessage, PendingAttachment };
 
+// Saved gateway connection (URL + token), each with its own session caches
+export interface GatewayProfile {
+  id: string;
+  name: string;
+  url: string;
+  token: string;
+  createdAt: number;
+  lastUsedAt?: number;
+}
+
 // Session metadata from gateway
 export interface SessionMeta {
   key: string;
@@ -20,9 +30,19 @@ export interface SessionMeta {
   createdAt?: number;
   updatedAt?: number;
   messageCount?: number;
+  model?: string;
+  archived?: boolean;
   isPinned?: boolean;
 }
 
+// Model available on the gateway
+export interface ModelInfo {
+  id: string;
+  name: string;
+  provider?: string;
+  contextWindow?: number;
+}
+
 // Search result
 export interface SearchResult {
   sessionKey: string;
@@ -57,7 +77,23 @@ export interface ThinkingContent {
   thinking: string;
 }
 
-export type MessageContent = TextContent | ImageContent | ThinkingContent;
+// Tool invocation by the agent
+export interface ToolUseContent {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input?: unknown;
+}
+
+// Output of a tool invocation (may arrive in a later message)
+export interface ToolResultContent {
+  type: 'tool_result';
+  tool_use_id: string;
+  content?: string | Array<TextContent | ImageContent>;
+  is_error?: boolean;
+}
+
+export type MessageContent = TextContent | ImageContent | ThinkingContent | ToolUseContent | ToolResultContent;
 
 // Extended message type for display
 export interface DisplayMessage extends Omit<UIMessage, 'content'> {
@@ -77,6 +113,123 @@ export interface PickedAttachment {
   width?: number;
   height?: number;
   fileName?: string;
+  // Size in bytes
+  size?: number;
+}
+
+// Message queued while offline, replayed in order once connected
+export type OutboxStatus = 'pending' | 'sending' | 'failed';
+
+export interface OutboxItem {
+  id: string;
+  sessionKey: string;
+  text: string;
+  // Content lives in files (see stores/outboxFiles); only URIs are kept here
+  attachments: PickedAttachment[];
+  createdAt: number;
+  status: OutboxStatus;
+  error?: string;
+  // Model chosen when the message was queued
+  model?: string;
+}
+
+// Unsent composer content of a session
+export interface SessionDraft {
+  text: string;
+  // URIs and metadata only (no base64); the files stay in the cache directory, which backups skip
+  attachments?: PickedAttachment[];
+  updatedAt: number;
+}
+
+// Prompt/reply pairs produced by "Edit & resend" and "Regenerate".
+// Version i is (promptIds[i], replyIds[i]); only the selected one is shown.
+export interface VersionGroup {
+  id: string;
+  promptIds: string[];
+  replyIds: (string | null)[];
+  selected: number;
+}
+
+// Session forked from a message of another session ("Branch from here")
+export interface SessionBranch {
+  parentKey: string;
+  messageId: string;
+  createdAt: number;
+  // Conversation up to the branch point, shown before the branch's own messages
+  seed: UIMessage[];
+  // Whether the seed has been sent to the gateway with the first prompt
+  primed?: boolean;
+}
+
+// Assistant personality (built-in or user-defined)
+export interface Persona {
+  id: string;
+  name: string;
+  emoji: string;
+  description?: string;
+  systemPrompt: string;
+  custom?: boolean;
+}
+
+// Reusable prompt template; {{variables}} are filled in on insert
+export interface Snippet {
+  id: string;
+  title: string;
+  body: string;
+  createdAt: number;
+}
+
+// Where the user last read a session (compared with gateway session metadata)
+export interface ReadMarker {
+  lastMessageId?: string;
+  // Session messageCount when read; unset if the session list didn't know it yet (filled in on the next fetch)
+  messageCount?: number;
+  readAt: number;
+}
+
+// Session kinds notifications can be limited to ('main' covers everything else)
+export type SessionKind = 'main' | 'channel' | 'subagent' | 'cron';
+
+// Daily quiet period in minutes after midnight; end before start wraps past midnight
+export interface QuietHours {
+  enabled: boolean;
+  start: number;
+  end: number;
+}
+
+// Notification rules (session mutes are stored per profile, see StorageHelpers.muteSession)
+export interface NotificationPreferences {
+  enabled: boolean;
+  soundEnabled: boolean;
+  vibrationEnabled: boolean;
+  quietHours: QuietHours;
+  // Only notify for these kinds (empty: all sessions)
+  kinds: SessionKind[];
+  // Messages containing any of these always notify, even when muted or in quiet hours
+  keywords: string[];
+}
+
+// Starred message kept in the saved-items list
+export interface SavedMessage {
+  // Session key + message id
+  id: string;
+  sessionKey: string;
+  sessionTitle: string;
+  messageId: string;
+  // Position when starred (fallback when the message isn't loaded)
+  messageIndex: number;
+  role: UIMessage['role'];
+  text: string;
+  tags: string[];
+  timestamp?: number;
+  savedAt: number;
+}
+
+// Persona chosen for a session
+export interface SessionPersona {
+  personaId: string;
+  // Whether the persona instructions have been sent to the gateway
+  primed?: boolean;
 }
 
 // Backward compatibility
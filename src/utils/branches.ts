@@ -0,0 +1,62 @@
+/**
+ * Session branch utilities
+ *
+ * The gateway has no way to copy history into a new session, so a branch
+ * keeps the conversation up to the branch point locally (the "seed") and
+ * sends it as context with the branch's first prompt.
+ */
+
+import type { UIMessage } from '../types';
+import { addContextPrefix, stripContextPrefix, type ContextMarkers } from './contextPrefix';
+
+// Seeds are capped so the first prompt stays a reasonable size
+const MAX_SEED_MESSAGES = 50;
+
+const CONTEXT_MARKERS: ContextMarkers = {
+  header: '[Branched conversation - earlier messages for context]',
+  footer: '[End of earlier messages]',
+};
+
+// Extract text from message content
+function extractText(content: UIMessage['content']): string {
+  return content
+    .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+    .map(block => block.text)
+    .join('');
+}
+
+/**
+ * Copy the conversation up to (and including) a message as a branch seed.
+ * Only text is kept; seed ids are prefixed so they never clash with the branch's own.
+ */
+export function createBranchSeed(messages: UIMessage[], messageId: string): UIMessage[] {
+  const index = messages.findIndex(m => m.id === messageId);
+  if (index < 0) return [];
+
+  return messages
+    .slice(0, index + 1)
+    .slice(-MAX_SEED_MESSAGES)
+    .map(m => ({
+      ...m,
+      id: `seed-${m.id}`,
+      content: [{ type: 'text' as const, text: extractText(m.content) }],
+    }))
+    .filter(m => extractText(m.content).length > 0) as UIMessage[];
+}
+
+/**
+ * Prefix the first prompt of a branch with the seed transcript
+ */
+export function buildBranchPrompt(seed: UIMessage[], text: string): string {
+  const transcript = seed
+    .map(m => `${m.role === 'assistant' ? 'Assistant' : 'User'}: ${extractText(m.content)}`)
+    .join('\n\n');
+  return addContextPrefix(CONTEXT_MARKERS, transcript, text);
+}
+
+/**
+ * Hide the seed transcript from a branch's first prompt
+ */
+export function stripBranchContext(message: UIMessage): UIMessage {
+  return stripContextPrefix(message, CONTEXT_MARKERS);
+}
@@ -0,0 +1,39 @@
+/**
+ * Context prefixes
+ *
+ * Branches and personas send hidden context ahead of a prompt, wrapped in a
+ * header/footer pair. The display copy of the message strips it again.
+ */
+
+import type { UIMessage } from '../types';
+
+export interface ContextMarkers {
+  header: string;
+  footer: string;
+}
+
+/**
+ * Prefix a prompt with context between the markers
+ */
+export function addContextPrefix(markers: ContextMarkers, context: string, text: string): string {
+  return `${markers.header}\n${context}\n${markers.footer}\n\n${text}`;
+}
+
+/**
+ * Remove a context prefix from a user message (other messages are returned as-is)
+ */
+export function stripContextPrefix(message: UIMessage, markers: ContextMarkers): UIMessage {
+  if (message.role !== 'user') return message;
+
+  const first = message.content[0] as { type: string; text?: string } | undefined;
+  if (first?.type !== 'text' || !first.text?.startsWith(markers.header)) return message;
+
+  const end = first.text.indexOf(markers.footer);
+  if (end < 0) return message;
+
+  const text = first.text.slice(end + markers.footer.length).trimStart();
+  return {
+    ...message,
+    content: [{ ...first, text } as UIMessage['content'][number], ...message.content.slice(1)],
+  };
+}
@@ -5,11 +5,22 @@
  * - Markdown (.md)
  * - JSON (.json)
  * - Plain text (.txt)
+ *
+ * Tool calls are included with their arguments, status and output.
  */
 
 import * as Sharing from 'expo-sharing';
 import { File, Paths } from 'expo-file-system';
 import type { UIMessage, ExportFormat } from '../types';
+import { getToolCalls, indexToolResults, truncateOutput, type ToolCall, type ToolResultIndex } from './tools';
+
+// How the assistant is labeled in exports (the session's persona)
+export interface ExportAssistant {
+  name: string;
+  emoji: string;
+}
+
+const DEFAULT_ASSISTANT: ExportAssistant = { name: 'Cami', emoji: '🦎' };
 
 // Extract text from message content
 function extractTextFromContent(content: UIMessage['content']): string {
@@ -30,6 +41,38 @@ function extractTextFromContent(content: UIMessage['content']): string {
     .join('\n');
 }
 
+// Messages holding only results of calls exported with another message
+function isResultOnly(message: UIMessage, toolCalls: ToolCall[]): boolean {
+  return toolCalls.length === 0 && message.content.length > 0 && message.content.every(block => block.type === 'tool_result');
+}
+
+// Format tool calls as Markdown
+function toolCallsAsMarkdown(toolCalls: ToolCall[]): string[] {
+  const lines: string[] = [];
+  for (const call of toolCalls) {
+    lines.push(`**🔧 ${call.name}** _(${call.status})_`);
+    if (call.args) {
+      lines.push('', '```json', call.args, '```');
+    }
+    if (call.output !== undefined) {
+      lines.push('', 'Output:', '', '```', truncateOutput(call.output), '```');
+    }
+    lines.push('');
+  }
+  return lines;
+}
+
+// Format tool calls as plain text
+function toolCallsAsText(toolCalls: ToolCall[]): string[] {
+  const lines: string[] = [];
+  for (const call of toolCalls) {
+    lines.push(`[Tool: ${call.name} (${call.status})]`);
+    if (call.args) lines.push(`Arguments: ${call.args}`);
+    if (call.output !== undefined) lines.push(`Output: ${truncateOutput(call.output)}`);
+  }
+  return lines;
+}
+
 // Format timestamp
 function formatTimestamp(timestamp?: number): string {
   if (!timestamp) return '';
@@ -38,7 +81,7 @@ function formatTimestamp(timestamp?: number): string {
 }
 
 // Export as Markdown
-function exportAsMarkdown(messages: UIMessage[], sessionTitle: string): string {
+function exportAsMarkdown(messages: UIMessage[], sessionTitle: string, assistant: ExportAssistant, toolResults: ToolResultIndex): string {
   const lines: string[] = [
     `# ${sessionTitle}`,
     '',
@@ -49,12 +92,16 @@ function exportAsMarkdown(messages: UIMessage[], sessionTitle: string): string {
   ];
   
   for (const message of messages) {
-    const role = message.role === 'assistant' ? '🦎 **Cami**' : '**You**';
+    const toolCalls = getToolCalls(message.content, toolResults);
+    if (isResultOnly(message, toolCalls)) continue;
+    
+    const role = message.role === 'assistant' ? `${assistant.emoji} **${assistant.name}**` : '**You**';
     const text = extractTextFromContent(message.content);
     const time = message.timestamp ? ` _(${formatTimestamp(message.timestamp)})_` : '';
     
     lines.push(`### ${role}${time}`);
     lines.push('');
+    lines.push(...toolCallsAsMarkdown(toolCalls));
     lines.push(text);
     lines.push('');
     lines.push('---');
@@ -65,15 +112,21 @@ function exportAsMarkdown(messages: UIMessage[], sessionTitle: string): string {
 }
 
 // Export as JSON
-function exportAsJson(messages: UIMessage[], sessionTitle: string): string {
+function exportAsJson(messages: UIMessage[], sessionTitle: string, assistant: ExportAssistant, toolResults: ToolResultIndex): string {
+  const exported = messages
+    .map((m) => ({ message: m, toolCalls: getToolCalls(m.content, toolResults) }))
+    .filter(({ message, toolCalls }) => !isResultOnly(message, toolCalls));
+  
   const exportData = {
     title: sessionTitle,
+    assistant: assistant.name,
     exportedAt: new Date().toISOString(),
-    messageCount: messages.length,
-    messages: messages.map((m) => ({
+    messageCount: exported.length,
+    messages: exported.map(({ message: m, toolCalls }) => ({
       id: m.id,
       role: m.role,
       content: extractTextFromContent(m.content),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       timestamp: m.timestamp,
       isError: m.isError,
     })),
@@ -83,7 +136,7 @@ function exportAsJson(messages: UIMessage[], sessionTitle: string): string {
 }
 
 // Export as plain text
-function exportAsText(messages: UIMessage[], sessionTitle: string): string {
+function exportAsText(messages: UIMessage[], sessionTitle: string, assistant: ExportAssistant, toolResults: ToolResultIndex): string {
   const lines: string[] = [
     sessionTitle,
     '='.repeat(sessionTitle.length),
@@ -95,11 +148,15 @@ function exportAsText(messages: UIMessage[], sessionTitle: string): string {
   ];
   
   for (const message of messages) {
-    const role = message.role === 'assistant' ? 'Cami' : 'You';
+    const toolCalls = getToolCalls(message.content, toolResults);
+    if (isResultOnly(message, toolCalls)) continue;
+    
+    const role = message.role === 'assistant' ? assistant.name : 'You';
     const text = extractTextFromContent(message.content);
     const time = message.timestamp ? ` (${formatTimestamp(message.timestamp)})` : '';
     
     lines.push(`[${role}${time}]`);
+    lines.push(...toolCallsAsText(toolCalls));
     lines.push(text);
     lines.push('');
     lines.push('-'.repeat(40));
@@ -114,6 +171,7 @@ export async function exportConversation(
   messages: UIMessage[],
   sessionTitle: string,
   format: ExportFormat = 'markdown',
+  assistant: ExportAssistant = DEFAULT_ASSISTANT,
 ): Promise<void> {
   if (messages.length === 0) {
     throw new Error('No messages to export');
@@ -126,23 +184,24 @@ export async function exportConversation(
   }
   
   // Generate content based on format
+  const toolResults = indexToolResults(messages);
   let content: string;
   let extension: string;
   let mimeType: string;
   
   switch (format) {
     case 'markdown':
-      content = exportAsMarkdown(messages, sessionTitle);
+      content = exportAsMarkdown(messages, sessionTitle, assistant, toolResults);
       extension = 'md';
       mimeType = 'text/markdown';
       break;
     case 'json':
-      content = exportAsJson(messages, sessionTitle);
+      content = exportAsJson(messages, sessionTitle, assistant, toolResults);
       extension = 'json';
       mimeType = 'application/json';
       break;
     case 'text':
-      content = exportAsText(messages, sessionTitle);
+      content = exportAsText(messages, sessionTitle, assistant, toolResults);
       extension = 'txt';
       mimeType = 'text/plain';
       break;
@@ -0,0 +1,134 @@
+/**
+ * Image processing for attachments
+ *
+ * Images are resized so their longest side fits the configured maximum and
+ * re-encoded as JPEG or WebP. Re-encoding drops all metadata, so EXIF and GPS
+ * data never leave the device. When the result is over the size limit the
+ * image is encoded again at lower quality.
+ */
+
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { File } from 'expo-file-system';
+import type { ImageFormat } from '../stores/storage';
+import type { PickedAttachment } from '../types';
+import { base64Size } from './mime';
+
+// Qualities tried in order until the image fits
+const QUALITY_STEPS = [0.8, 0.65, 0.5, 0.35, 0.2];
+
+const SAVE_FORMATS: Record<ImageFormat, { format: SaveFormat; mimeType: string; extension: string }> = {
+  jpeg: { format: SaveFormat.JPEG, mimeType: 'image/jpeg', extension: 'jpg' },
+  webp: { format: SaveFormat.WEBP, mimeType: 'image/webp', extension: 'webp' },
+};
+
+export interface ProcessImageOptions {
+  maxDimension: number;
+  format: ImageFormat;
+  maxBytes: number;
+  // Original size when known (saves decoding just to measure it)
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Raised when an image is still over the size limit at the lowest quality
+ */
+export class ImageTooLargeError extends Error {
+  constructor(public readonly size: number) {
+    super('Image is too large even at the lowest quality');
+    this.name = 'ImageTooLargeError';
+  }
+}
+
+// Resize so that the longest side is at most maxDimension (never upscale)
+function targetSize(width: number, height: number, maxDimension: number): { width?: number; height?: number } | null {
+  if (width <= maxDimension && height <= maxDimension) return null;
+  return width >= height ? { width: maxDimension } : { height: maxDimension };
+}
+
+// Decode once to read the size of an image
+async function measureImage(uri: string): Promise<{ width: number; height: number }> {
+  const context = ImageManipulator.manipulate(uri);
+  try {
+    const image = await context.renderAsync();
+    const { width, height } = image;
+    image.release();
+    return { width, height };
+  } finally {
+    context.release();
+  }
+}
+
+// Byte size of an encoded image (from its base64, or the saved file when that's missing)
+function encodedSize(result: { uri: string; base64?: string }): number {
+  if (result.base64) return base64Size(result.base64);
+  const file = new File(result.uri);
+  if (!file.exists || !file.size) {
+    throw new Error('Could not read the size of the encoded image');
+  }
+  return file.size;
+}
+
+// Replace the extension of the original name with the encoded format's
+function renameFor(fileName: string, extension: string): string {
+  const base = fileName.replace(/\.[^./]+$/, '');
+  return `${base || 'image'}.${extension}`;
+}
+
+/**
+ * Resize, re-encode and strip metadata of an image.
+ * Returns the attachment to send (with the final byte size).
+ */
+export async function processImage(
+  uri: string,
+  fileName: string,
+  options: ProcessImageOptions,
+): Promise<PickedAttachment> {
+  const { format, mimeType, extension } = SAVE_FORMATS[options.format];
+  const { width, height } = options.width && options.height
+    ? { width: options.width, height: options.height }
+    : await measureImage(uri);
+
+  const context = ImageManipulator.manipulate(uri);
+  try {
+    const resize = targetSize(width, height, options.maxDimension);
+    if (resize) context.resize(resize);
+
+    const image = await context.renderAsync();
+    let lastSize = 0;
+
+    try {
+      for (const compress of QUALITY_STEPS) {
+        // Content is read from the file when the message is sent
+        const result = await image.saveAsync({ compress, format, base64: false });
+        const size = encodedSize(result);
+        lastSize = size;
+
+        if (size <= options.maxBytes) {
+          return {
+            uri: result.uri,
+            mimeType,
+            width: result.width,
+            height: result.height,
+            fileName: renameFor(fileName, extension),
+            size,
+          };
+        }
+      }
+    } finally {
+      image.release();
+    }
+
+    throw new ImageTooLargeError(lastSize);
+  } finally {
+    context.release();
+  }
+}
+
+/**
+ * Whether an attachment's MIME type can be re-encoded (animated and vector images are sent as-is)
+ */
+export function isProcessableImage(mimeType: string | undefined): boolean {
+  if (!mimeType?.startsWith('image/')) return false;
+  return mimeType !== 'image/gif' && mimeType !== 'image/svg+xml';
+}
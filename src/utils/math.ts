@@ -0,0 +1,578 @@
+/**
+ * TeX math support for markdown
+ *
+ * - prepareMath(): rewrites $…$ / \(…\) as marked code spans and $$…$$ / \[…\]
+ *   as ```math blocks, so markdown never mangles the TeX (underscores, asterisks)
+ * - parseTeX(): parses the common TeX subset agents write into a small tree
+ *   (fractions, roots, scripts, big operators, accents, matrices, \left…\right)
+ *   that MathView lays out
+ */
+
+// Marks code spans holding inline math (invisible separator)
+const INLINE_MATH_MARK = '\u2063';
+
+export const MATH_LANGUAGE = 'math';
+
+export type MathNode =
+  | { type: 'symbol'; text: string; italic?: boolean; bold?: boolean; spacing?: 'bin' | 'rel' | 'punct' }
+  | { type: 'text'; text: string; bold?: boolean }
+  | { type: 'space'; width: number }
+  | { type: 'group'; children: MathNode[] }
+  | { type: 'frac'; num: MathNode[]; den: MathNode[]; bar: boolean }
+  | { type: 'sqrt'; body: MathNode[]; index?: MathNode[] }
+  | { type: 'scripts'; base: MathNode; sup?: MathNode[]; sub?: MathNode[] }
+  | { type: 'bigop'; text: string; limits: boolean; sup?: MathNode[]; sub?: MathNode[] }
+  | { type: 'accent'; accent: string; body: MathNode[] }
+  | { type: 'delimited'; left: string; right: string; body: MathNode[] }
+  | { type: 'matrix'; rows: MathNode[][][]; left: string; right: string; align: 'center' | 'left' };
+
+// ---------------------------------------------------------------------------
+// Markdown preprocessing
+// ---------------------------------------------------------------------------
+
+// Sticky patterns, matched at a position with lastIndex (no slicing of the remaining text)
+// Inline math: no space just inside the dollars, closing $ not followed by a digit ("$5 and $10")
+const INLINE_DOLLAR = /\$(?!\s)((?:[^$\\\n]|\\[\s\S])+?)(?<!\s)\$(?!\d)/y;
+const INLINE_PAREN = /\\\(([\s\S]+?)\\\)/y;
+const BLOCK_DOLLAR = /\$\$([\s\S]+?)\$\$/y;
+const BLOCK_BRACKET = /\\\[([\s\S]+?)\\\]/y;
+const FENCE_OPEN = /( {0,3})(`{3,}|~{3,})[^\n]*\n?/y;
+const BACKTICK_RUN = /`+/y;
+// Characters where something other than plain text may start
+const SPECIAL = /[`$\\\n]/g;
+
+function codeSpan(content: string): string {
+  const ticks = content.includes('`') ? '``' : '`';
+  return `${ticks}${INLINE_MATH_MARK}${content}${ticks}`;
+}
+
+function mathBlock(content: string): string {
+  return `\n\n\`\`\`${MATH_LANGUAGE}\n${content.trim()}\n\`\`\`\n\n`;
+}
+
+function matchAt(pattern: RegExp, text: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+}
+
+/**
+ * Rewrite math delimiters outside of code so the markdown renderer can typeset them.
+ * Runs on every streamed frame, so it scans once from left to right.
+ */
+export function prepareMath(markdown: string): string {
+  if (!/[$\\]/.test(markdown)) return markdown;
+
+  let out = '';
+  let i = 0;
+  let lineStart = true;
+
+  while (i < markdown.length) {
+    // Fenced code blocks are copied as-is
+    if (lineStart) {
+      const fence = matchAt(FENCE_OPEN, markdown, i);
+      if (fence) {
+        const marker = fence[2];
+        const close = new RegExp(`\\n {0,3}${marker[0]}{${marker.length},}[ \\t]*(?:\\n|$)`, 'g');
+        close.lastIndex = i + fence[0].length - 1;
+        const closing = close.exec(markdown);
+        const end = closing ? closing.index + closing[0].length : markdown.length;
+        out += markdown.slice(i, end);
+        i = end;
+        lineStart = true;
+        continue;
+      }
+    }
+
+    const ch = markdown[i];
+
+    // Inline code spans are copied as-is
+    if (ch === '`') {
+      const run = matchAt(BACKTICK_RUN, markdown, i)![0];
+      const closeIndex = markdown.indexOf(run, i + run.length);
+      const end = closeIndex >= 0 ? closeIndex + run.length : i + run.length;
+      out += markdown.slice(i, end);
+      i = end;
+      lineStart = false;
+      continue;
+    }
+
+    // Escaped dollar stays a literal dollar
+    if (ch === '\\' && markdown[i + 1] === '$') {
+      out += '\\$';
+      i += 2;
+      lineStart = false;
+      continue;
+    }
+
+    if (ch === '$' || ch === '\\') {
+      const block = matchAt(BLOCK_DOLLAR, markdown, i) ?? matchAt(BLOCK_BRACKET, markdown, i);
+      if (block) {
+        out += mathBlock(block[1]);
+        i += block[0].length;
+        lineStart = true;
+        continue;
+      }
+
+      const inline = matchAt(INLINE_DOLLAR, markdown, i) ?? matchAt(INLINE_PAREN, markdown, i);
+      if (inline) {
+        out += codeSpan(inline[1].trim());
+        i += inline[0].length;
+        lineStart = false;
+        continue;
+      }
+    }
+
+    if (ch === '\n') {
+      out += ch;
+      lineStart = true;
+      i += 1;
+      continue;
+    }
+
+    // Copy plain text up to the next character that may start something
+    SPECIAL.lastIndex = i + 1;
+    const next = SPECIAL.exec(markdown);
+    const end = next ? next.index : markdown.length;
+    out += markdown.slice(i, end);
+    lineStart = false;
+    i = end;
+  }
+
+  return out;
+}
+
+/**
+ * TeX of a code span created by prepareMath(), or null for regular code
+ */
+export function getInlineMath(codespan: string): string | null {
+  return codespan.startsWith(INLINE_MATH_MARK) ? codespan.slice(INLINE_MATH_MARK.length) : null;
+}
+
+// ---------------------------------------------------------------------------
+// TeX parsing
+// ---------------------------------------------------------------------------
+
+const GREEK: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π',
+  varpi: 'ϖ', rho: 'ρ', varrho: 'ϱ', sigma: 'σ', varsigma: 'ς', tau: 'τ', upsilon: 'υ', phi: 'ϕ',
+  varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Upsilon: 'Υ',
+  Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+};
+
+const RELATIONS: Record<string, string> = {
+  leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡', sim: '∼', simeq: '≃',
+  cong: '≅', propto: '∝', in: '∈', notin: '∉', ni: '∋', subset: '⊂', subseteq: '⊆', supset: '⊃',
+  supseteq: '⊇', to: '→', rightarrow: '→', leftarrow: '←', gets: '←', leftrightarrow: '↔',
+  Rightarrow: '⇒', Leftarrow: '⇐', Leftrightarrow: '⇔', implies: '⟹', iff: '⟺', mapsto: '↦',
+  ll: '≪', gg: '≫', perp: '⊥', parallel: '∥', mid: '∣', models: '⊨', vdash: '⊢',
+  longrightarrow: '⟶', longleftarrow: '⟵', uparrow: '↑', downarrow: '↓',
+};
+
+const BINARIES: Record<string, string> = {
+  times: '×', cdot: '⋅', pm: '±', mp: '∓', div: '÷', ast: '∗', star: '⋆', circ: '∘', bullet: '∙',
+  cup: '∪', cap: '∩', setminus: '∖', oplus: '⊕', otimes: '⊗', wedge: '∧', land: '∧', vee: '∨', lor: '∨',
+};
+
+const SYMBOLS: Record<string, string> = {
+  infty: '∞', partial: '∂', nabla: '∇', forall: '∀', exists: '∃', nexists: '∄', emptyset: '∅',
+  varnothing: '∅', neg: '¬', lnot: '¬', angle: '∠', triangle: '△', ldots: '…', cdots: '⋯', dots: '…',
+  vdots: '⋮', ddots: '⋱', prime: '′', hbar: 'ℏ', ell: 'ℓ', Re: 'ℜ', Im: 'ℑ', aleph: 'ℵ', degree: '°',
+  langle: '⟨', rangle: '⟩', lceil: '⌈', rceil: '⌉', lfloor: '⌊', rfloor: '⌋', lvert: '|', rvert: '|',
+  vert: '|', Vert: '‖', lVert: '‖', rVert: '‖', backslash: '∖', colon: ':', checkmark: '✓',
+  '{': '{', '}': '}', '%': '%', '$': '$', '&': '&', '#': '#', '_': '_', '|': '‖',
+};
+
+const BIG_OPERATORS: Record<string, { text: string; limits: boolean }> = {
+  sum: { text: '∑', limits: true },
+  prod: { text: '∏', limits: true },
+  coprod: { text: '∐', limits: true },
+  bigcup: { text: '⋃', limits: true },
+  bigcap: { text: '⋂', limits: true },
+  bigoplus: { text: '⨁', limits: true },
+  int: { text: '∫', limits: false },
+  iint: { text: '∬', limits: false },
+  iiint: { text: '∭', limits: false },
+  oint: { text: '∮', limits: false },
+  lim: { text: 'lim', limits: true },
+  max: { text: 'max', limits: true },
+  min: { text: 'min', limits: true },
+  sup: { text: 'sup', limits: true },
+  inf: { text: 'inf', limits: true },
+  argmax: { text: 'arg max', limits: true },
+  argmin: { text: 'arg min', limits: true },
+};
+
+const FUNCTIONS = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'log', 'ln', 'lg', 'exp', 'det', 'dim', 'ker', 'deg', 'gcd', 'Pr', 'mod', 'arg',
+]);
+
+const ACCENTS: Record<string, string> = {
+  hat: '^', widehat: '^', bar: '¯', overline: '¯', vec: '→', overrightarrow: '→', dot: '˙', ddot: '¨',
+  tilde: '~', widetilde: '~', check: 'ˇ', breve: '˘', acute: '´', grave: '`',
+};
+
+const SPACES: Record<string, number> = {
+  ',': 0.17, ':': 0.22, '>': 0.22, ';': 0.28, ' ': 0.28, quad: 1, qquad: 2, '!': -0.17, enspace: 0.5,
+};
+
+const DOUBLE_STRUCK: Record<string, string> = {
+  R: 'ℝ', N: 'ℕ', Z: 'ℤ', Q: 'ℚ', C: 'ℂ', P: 'ℙ', H: 'ℍ', E: '𝔼', F: '𝔽', '1': '𝟙',
+};
+
+const MATRIX_DELIMITERS: Record<string, [string, string]> = {
+  matrix: ['', ''],
+  smallmatrix: ['', ''],
+  pmatrix: ['(', ')'],
+  bmatrix: ['[', ']'],
+  Bmatrix: ['{', '}'],
+  vmatrix: ['|', '|'],
+  Vmatrix: ['‖', '‖'],
+  cases: ['{', ''],
+  dcases: ['{', ''],
+  aligned: ['', ''],
+  align: ['', ''],
+  'align*': ['', ''],
+  gathered: ['', ''],
+  gather: ['', ''],
+  'gather*': ['', ''],
+  split: ['', ''],
+  array: ['', ''],
+  equation: ['', ''],
+  'equation*': ['', ''],
+};
+
+const RELATION_CHARS = new Set(['=', '<', '>', '≤', '≥', '≠', '≈', '→', '∈']);
+const BINARY_CHARS = new Set(['+', '-', '*', '×', '·']);
+const PUNCT_CHARS = new Set([',', ';']);
+
+type Token = { kind: 'command'; name: string } | { kind: 'char'; value: string };
+
+function tokenize(tex: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < tex.length) {
+    const ch = tex[i];
+    if (ch === '\\') {
+      const word = /^[A-Za-z]+\*?/.exec(tex.slice(i + 1));
+      if (word) {
+        tokens.push({ kind: 'command', name: word[0] });
+        i += 1 + word[0].length;
+      } else if (i + 1 < tex.length) {
+        tokens.push({ kind: 'command', name: tex[i + 1] });
+        i += 2;
+      } else {
+        i += 1;
+      }
+      continue;
+    }
+    if (ch === '%') {
+      // Comment to end of line
+      const end = tex.indexOf('\n', i);
+      i = end < 0 ? tex.length : end + 1;
+      continue;
+    }
+    tokens.push({ kind: 'char', value: ch });
+    i += 1;
+  }
+  return tokens;
+}
+
+class TeXParser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isChar(token: Token | undefined, value: string): boolean {
+    return token?.kind === 'char' && token.value === value;
+  }
+
+  private isCommand(token: Token | undefined, name: string): boolean {
+    return token?.kind === 'command' && token.name === name;
+  }
+
+  private skipWhitespace() {
+    while (this.peek()?.kind === 'char' && /\s/.test((this.peek() as { value: string }).value)) this.pos++;
+  }
+
+  // Raw text of a {…} group (for \text, \begin, …)
+  private readRawGroup(): string {
+    this.skipWhitespace();
+    if (!this.isChar(this.peek(), '{')) {
+      const token = this.tokens[this.pos++];
+      if (!token) return '';
+      return token.kind === 'char' ? token.value : token.name;
+    }
+    this.pos++;
+    let depth = 1;
+    let text = '';
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos++];
+      if (this.isChar(token, '{')) depth++;
+      if (this.isChar(token, '}') && --depth === 0) break;
+      text += token.kind === 'char' ? token.value : SYMBOLS[token.name] ?? (token.name.length === 1 ? token.name : `\\${token.name} `);
+    }
+    return text;
+  }
+
+  // Optional [...] argument
+  private readOptional(): MathNode[] | undefined {
+    this.skipWhitespace();
+    if (!this.isChar(this.peek(), '[')) return undefined;
+    this.pos++;
+    const nodes = this.parseList(token => this.isChar(token, ']'));
+    this.pos++;
+    return nodes;
+  }
+
+  // A single argument: a {group} or one atom
+  private parseArgument(): MathNode[] {
+    this.skipWhitespace();
+    const token = this.peek();
+    if (!token) return [];
+    if (this.isChar(token, '{')) {
+      this.pos++;
+      const nodes = this.parseList(t => this.isChar(t, '}'));
+      this.pos++;
+      return nodes;
+    }
+    const atom = this.parseAtom();
+    return atom ? [atom] : [];
+  }
+
+  private parseDelimiter(): string {
+    this.skipWhitespace();
+    const token = this.tokens[this.pos++];
+    if (!token) return '';
+    if (token.kind === 'char') return token.value === '.' ? '' : token.value;
+    return SYMBOLS[token.name] ?? RELATIONS[token.name] ?? '';
+  }
+
+  /**
+   * Parse until the stop condition (not consumed) or the end of input
+   */
+  parseList(stop: (token: Token) => boolean = () => false): MathNode[] {
+    const nodes: MathNode[] = [];
+    while (this.pos < this.tokens.length) {
+      const token = this.peek()!;
+      if (stop(token)) break;
+
+      if (this.isChar(token, '^') || this.isChar(token, '_')) {
+        this.pos++;
+        const script = this.parseArgument();
+        const previous = nodes.pop() ?? { type: 'text', text: '' };
+        nodes.push(attachScript(previous, token.kind === 'char' && token.value === '^' ? 'sup' : 'sub', script));
+        continue;
+      }
+
+      if (this.isChar(token, "'")) {
+        // Primes are superscripts
+        this.pos++;
+        const previous = nodes.pop() ?? { type: 'text', text: '' };
+        nodes.push(attachScript(previous, 'sup', [{ type: 'symbol', text: '′' }]));
+        continue;
+      }
+
+      const atom = this.parseAtom();
+      if (atom) nodes.push(atom);
+    }
+    return nodes;
+  }
+
+  private parseAtom(): MathNode | null {
+    const token = this.tokens[this.pos++];
+    if (!token) return null;
+
+    if (token.kind === 'char') {
+      const ch = token.value;
+      if (/\s/.test(ch)) return null;
+      if (ch === '{') {
+        const children = this.parseList(t => this.isChar(t, '}'));
+        this.pos++;
+        return { type: 'group', children };
+      }
+      if (ch === '}' || ch === '&') return null;
+      if (ch === '~') return { type: 'space', width: 0.28 };
+      if (/[0-9.]/.test(ch)) {
+        let text = ch;
+        while (this.peek()?.kind === 'char' && /[0-9.]/.test((this.peek() as { value: string }).value)) {
+          text += (this.tokens[this.pos++] as { value: string }).value;
+        }
+        return { type: 'symbol', text };
+      }
+      if (/[A-Za-z]/.test(ch)) return { type: 'symbol', text: ch, italic: true };
+      if (ch === '-') return { type: 'symbol', text: '−', spacing: 'bin' };
+      if (ch === '*') return { type: 'symbol', text: '∗', spacing: 'bin' };
+      if (RELATION_CHARS.has(ch)) return { type: 'symbol', text: ch, spacing: 'rel' };
+      if (BINARY_CHARS.has(ch)) return { type: 'symbol', text: ch, spacing: 'bin' };
+      if (PUNCT_CHARS.has(ch)) return { type: 'symbol', text: ch, spacing: 'punct' };
+      if (ch === ':') return { type: 'symbol', text: ':', spacing: 'rel' };
+      return { type: 'symbol', text: ch };
+    }
+
+    return this.parseCommand(token.name);
+  }
+
+  private parseCommand(name: string): MathNode | null {
+    if (name in SPACES) return { type: 'space', width: SPACES[name] };
+    if (GREEK[name]) return { type: 'symbol', text: GREEK[name], italic: /^[a-z]/.test(name) };
+    if (RELATIONS[name]) return { type: 'symbol', text: RELATIONS[name], spacing: 'rel' };
+    if (BINARIES[name]) return { type: 'symbol', text: BINARIES[name], spacing: 'bin' };
+    if (SYMBOLS[name]) return { type: 'symbol', text: SYMBOLS[name] };
+    if (FUNCTIONS.has(name)) return { type: 'text', text: name };
+    if (BIG_OPERATORS[name]) return { type: 'bigop', ...BIG_OPERATORS[name] };
+    if (ACCENTS[name]) return { type: 'accent', accent: ACCENTS[name], body: this.parseArgument() };
+
+    switch (name) {
+      case 'frac':
+      case 'dfrac':
+      case 'tfrac':
+      case 'cfrac':
+        return { type: 'frac', num: this.parseArgument(), den: this.parseArgument(), bar: true };
+      case 'binom':
+      case 'dbinom':
+      case 'tbinom':
+        return {
+          type: 'delimited',
+          left: '(',
+          right: ')',
+          body: [{ type: 'frac', num: this.parseArgument(), den: this.parseArgument(), bar: false }],
+        };
+      case 'sqrt': {
+        const index = this.readOptional();
+        return { type: 'sqrt', index, body: this.parseArgument() };
+      }
+      case 'text':
+      case 'textrm':
+      case 'textit':
+      case 'mathrm':
+      case 'operatorname':
+      case 'mbox':
+        return { type: 'text', text: this.readRawGroup() };
+      case 'textbf':
+        return { type: 'text', text: this.readRawGroup(), bold: true };
+      case 'mathbf':
+      case 'boldsymbol':
+      case 'bm':
+        return { type: 'group', children: this.parseArgument().map(makeBold) };
+      case 'mathbb':
+        return {
+          type: 'text',
+          text: this.readRawGroup().split('').map(c => DOUBLE_STRUCK[c] ?? c).join(''),
+        };
+      case 'mathcal':
+      case 'mathscr':
+      case 'mathit':
+      case 'mathsf':
+      case 'mathtt':
+      case 'displaystyle':
+      case 'textstyle':
+      case 'scriptstyle':
+      case 'limits':
+      case 'nolimits':
+      case 'big':
+      case 'Big':
+      case 'bigg':
+      case 'Bigg':
+      case 'bigl':
+      case 'bigr':
+      case 'Bigl':
+      case 'Bigr':
+        // Styling we don't distinguish: keep the content
+        return null;
+      case 'left': {
+        const left = this.parseDelimiter();
+        const body = this.parseList(t => this.isCommand(t, 'right'));
+        this.pos++;
+        const right = this.parseDelimiter();
+        return { type: 'delimited', left, right, body };
+      }
+      case 'right':
+        this.parseDelimiter();
+        return null;
+      case 'begin':
+        return this.parseEnvironment(this.readRawGroup());
+      case 'end':
+        this.readRawGroup();
+        return null;
+      case '\\':
+        return null;
+      default:
+        // Unknown command: show it as written
+        return { type: 'text', text: `\\${name}` };
+    }
+  }
+
+  private parseEnvironment(env: string): MathNode {
+    if (env === 'array') this.readRawGroup(); // column spec
+    const rows = this.parseRows(t => this.isCommand(t, 'end'));
+    if (this.isCommand(this.peek(), 'end')) {
+      this.pos++;
+      this.readRawGroup();
+    }
+    const [left, right] = MATRIX_DELIMITERS[env] ?? ['', ''];
+    const align = env.startsWith('align') || env === 'aligned' || env === 'split' || env.endsWith('cases') ? 'left' : 'center';
+    return { type: 'matrix', rows, left, right, align };
+  }
+
+  /**
+   * Rows split by \\ with cells split by &
+   */
+  parseRows(stop: (token: Token) => boolean = () => false): MathNode[][][] {
+    const rows: MathNode[][][] = [];
+    let row: MathNode[][] = [];
+    const isSeparator = (t: Token) => stop(t) || this.isChar(t, '&') || this.isCommand(t, '\\');
+
+    while (this.pos < this.tokens.length) {
+      row.push(this.parseList(isSeparator));
+      const token = this.peek();
+      if (!token || stop(token)) break;
+      this.pos++;
+      if (this.isCommand(token, '\\')) {
+        this.readOptional(); // row spacing like \\[4pt]
+        rows.push(row);
+        row = [];
+      }
+    }
+    if (row.some(cell => cell.length > 0) || rows.length === 0) rows.push(row);
+    return rows;
+  }
+}
+
+function makeBold(node: MathNode): MathNode {
+  if (node.type === 'symbol' || node.type === 'text') return { ...node, bold: true };
+  if (node.type === 'group') return { ...node, children: node.children.map(makeBold) };
+  return node;
+}
+
+function attachScript(base: MathNode, kind: 'sup' | 'sub', script: MathNode[]): MathNode {
+  if (base.type === 'bigop' && !base[kind]) return { ...base, [kind]: script };
+  if (base.type === 'scripts' && !base[kind]) return { ...base, [kind]: script };
+  return { type: 'scripts', base, [kind]: script };
+}
+
+/**
+ * Parse TeX into rows of nodes (one row unless the formula uses \\ line breaks)
+ */
+export function parseTeX(tex: string): MathNode[][] {
+  const parser = new TeXParser(tokenize(tex));
+  return parser.parseRows().map(row => row.flat());
+}
+
+/**
+ * Whether nodes are plain symbols and text (can flow inline with surrounding text)
+ */
+export function isFlatMath(nodes: MathNode[]): boolean {
+  return nodes.every(node =>
+    node.type === 'symbol' ||
+    node.type === 'text' ||
+    node.type === 'space' ||
+    (node.type === 'group' && isFlatMath(node.children))
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * Content hashing for message rendering
+ *
+ * Streaming replaces only the streaming message object, but other message
+ * objects can still be recreated (history reloads, context stripping).
+ * Comparing by id and content hash lets memoized bubbles skip re-rendering
+ * when nothing visible changed.
+ */
+
+import type { UIMessage } from '../types';
+
+// Hashes by content array; content arrays are never mutated once replaced
+const hashCache = new WeakMap<UIMessage['content'], string>();
+
+// FNV-1a over a string (32-bit, as base-36)
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Hash of a message's content (length-prefixed to make collisions even less likely)
+ */
+export function getContentHash(message: UIMessage): string {
+  const cached = hashCache.get(message.content);
+  if (cached) return cached;
+
+  const serialized = JSON.stringify(message.content);
+  const hash = `${serialized.length}:${fnv1a(serialized)}`;
+  hashCache.set(message.content, hash);
+  return hash;
+}
+
+/**
+ * Whether two messages render the same
+ */
+export function isSameMessage(a: UIMessage, b: UIMessage): boolean {
+  if (a === b) return true;
+  return (
+    a.id === b.id &&
+    a.role === b.role &&
+    a.timestamp === b.timestamp &&
+    a.isError === b.isError &&
+    a.errorMessage === b.errorMessage &&
+    (a.content === b.content || getContentHash(a) === getContentHash(b))
+  );
+}
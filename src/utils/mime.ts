@@ -0,0 +1,143 @@
+/**
+ * MIME type and file extension detection for attachments
+ */
+
+// Extension -> MIME type for files commonly sent to the agent
+const MIME_TYPES: Record<string, string> = {
+  // Images
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  // Audio / video
+  m4a: 'audio/mp4',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  webm: 'audio/webm',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  // Documents
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  rtf: 'application/rtf',
+  // Text and data
+  txt: 'text/plain',
+  log: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  xml: 'application/xml',
+  json: 'application/json',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+  // Code
+  js: 'text/javascript',
+  ts: 'text/x-typescript',
+  tsx: 'text/x-typescript',
+  py: 'text/x-python',
+  sh: 'application/x-sh',
+  sql: 'application/sql',
+  diff: 'text/x-diff',
+  patch: 'text/x-diff',
+  go: 'text/x-go',
+  rs: 'text/x-rust',
+  java: 'text/x-java',
+  // Archives
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  tar: 'application/x-tar',
+};
+
+// Preferred extension when a MIME type maps to several
+const PREFERRED_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'text/plain': 'txt',
+  'text/html': 'html',
+  'application/yaml': 'yaml',
+  'text/x-typescript': 'ts',
+  'audio/x-m4a': 'm4a',
+  'audio/m4a': 'm4a',
+};
+
+export const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Lowercase extension of a file name or URI (without query string), or null
+ */
+export function getExtension(nameOrUri: string): string | null {
+  const path = nameOrUri.split(/[?#]/)[0];
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  if (dot <= 0 || dot === name.length - 1) return null;
+  return name.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * MIME type for a file name or URI, based on its extension
+ */
+export function getMimeType(nameOrUri: string): string {
+  const ext = getExtension(nameOrUri);
+  return (ext && MIME_TYPES[ext]) || DEFAULT_MIME_TYPE;
+}
+
+/**
+ * File extension for a MIME type (e.g. "application/pdf" -> "pdf")
+ */
+export function getExtensionForMimeType(mimeType: string): string {
+  const type = mimeType.toLowerCase().split(';')[0].trim();
+  if (PREFERRED_EXTENSIONS[type]) return PREFERRED_EXTENSIONS[type];
+  const ext = Object.keys(MIME_TYPES).find(key => MIME_TYPES[key] === type);
+  return ext ?? 'bin';
+}
+
+/**
+ * Resolve MIME type and a file name with a matching extension.
+ * A specific MIME type wins over the extension; the extension fills in generic ones.
+ */
+export function resolveFileType(
+  fileName: string | undefined,
+  uri: string,
+  mimeType: string | undefined,
+  fallbackName: string,
+): { mimeType: string; fileName: string } {
+  const source = fileName || uri;
+  const type = mimeType && mimeType !== DEFAULT_MIME_TYPE ? mimeType : getMimeType(source);
+
+  let name = fileName || fallbackName;
+  if (!getExtension(name)) {
+    name = `${name}.${getExtensionForMimeType(type)}`;
+  }
+  return { mimeType: type, fileName: name };
+}
+
+/**
+ * Human-readable file size (e.g. 1.4 MB)
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Decoded size of base64 content
+ */
+export function base64Size(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
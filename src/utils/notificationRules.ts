@@ -0,0 +1,107 @@
+/**
+ * Notification rules
+ *
+ * Decides whether a finished message notifies, and how. In order:
+ * - notifications off: never
+ * - keyword match: always (ignores mutes, quiet hours and the kind filter)
+ * - muted session, session kind filtered out, or quiet hours: no
+ * Sound and vibration follow the preferences.
+ */
+
+import { StorageHelpers } from '../stores/storage';
+import type { NotificationPreferences, QuietHours, SessionKind, SessionMeta } from '../types';
+
+export interface NotificationDecision {
+  notify: boolean;
+  sound: boolean;
+  vibrate: boolean;
+}
+
+// Durations offered when muting a session (null: until unmuted)
+export const MUTE_DURATIONS: { label: string; ms: number | null }[] = [
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '8 hours', ms: 8 * 60 * 60 * 1000 },
+  { label: 'Until unmuted', ms: null },
+];
+
+export const SESSION_KINDS: { value: SessionKind; label: string }[] = [
+  { value: 'main', label: 'Chats' },
+  { value: 'channel', label: 'Channels' },
+  { value: 'subagent', label: 'Subagents' },
+  { value: 'cron', label: 'Cron' },
+];
+
+/**
+ * Kind of a session for filtering (unknown kinds count as main)
+ */
+export function getSessionKind(session: SessionMeta | undefined): SessionKind {
+  switch (session?.kind) {
+    case 'channel':
+    case 'subagent':
+    case 'cron':
+      return session.kind;
+    default:
+      return 'main';
+  }
+}
+
+/**
+ * Whether a time falls within quiet hours (local time)
+ */
+export function isInQuietHours(quietHours: QuietHours, date = new Date()): boolean {
+  if (!quietHours.enabled || quietHours.start === quietHours.end) return false;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  if (quietHours.start < quietHours.end) {
+    return minutes >= quietHours.start && minutes < quietHours.end;
+  }
+  // Wraps past midnight (e.g. 22:00 - 07:00)
+  return minutes >= quietHours.start || minutes < quietHours.end;
+}
+
+/**
+ * Whether text contains one of the keywords (case-insensitive)
+ */
+export function matchesKeyword(text: string, keywords: string[]): boolean {
+  const haystack = text.toLowerCase();
+  return keywords.some(keyword => keyword.trim() && haystack.includes(keyword.trim().toLowerCase()));
+}
+
+/**
+ * Apply the rules to a finished message
+ */
+export function evaluateNotification(
+  message: { sessionKey: string; session?: SessionMeta; text: string },
+  preferences: NotificationPreferences,
+  now = Date.now(),
+): NotificationDecision {
+  const decision = { notify: false, sound: preferences.soundEnabled, vibrate: preferences.vibrationEnabled };
+  if (!preferences.enabled) return decision;
+
+  if (matchesKeyword(message.text, preferences.keywords)) {
+    return { ...decision, notify: true };
+  }
+
+  if (StorageHelpers.isSessionMuted(message.sessionKey, now)) return decision;
+  if (preferences.kinds.length > 0 && !preferences.kinds.includes(getSessionKind(message.session))) return decision;
+  if (isInQuietHours(preferences.quietHours, new Date(now))) return decision;
+
+  return { ...decision, notify: true };
+}
+
+/**
+ * Format minutes after midnight as HH:MM
+ */
+export function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+/**
+ * Short description of a mute (e.g. "Muted until 14:30")
+ */
+export function describeMute(until: number | null): string {
+  if (until === null) return 'Muted';
+  const date = new Date(until);
+  return `Muted until ${formatMinutes(date.getHours() * 60 + date.getMinutes())}`;
+}
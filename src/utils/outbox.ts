@@ -0,0 +1,10 @@
+/**
+ * Outbox utilities
+ */
+
+/**
+ * Id of a new outbox item (unique even for items queued in the same millisecond)
+ */
+export function createOutboxId(): string {
+  return `out-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
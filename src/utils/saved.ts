@@ -0,0 +1,100 @@
+/**
+ * Saved (starred) messages
+ *
+ * Starring keeps a copy of the message text with its session key and id,
+ * so the answer stays available even if the session is later cleared.
+ * Items can be tagged and searched across all sessions.
+ */
+
+import { StorageHelpers } from '../stores/storage';
+import type { SavedMessage, UIMessage } from '../types';
+
+function getSavedId(sessionKey: string, messageId: string): string {
+  return `${sessionKey}:${messageId}`;
+}
+
+/**
+ * Ids of the starred messages of a session
+ */
+export function getStarredMessageIds(sessionKey: string): Set<string> {
+  return new Set(
+    StorageHelpers.getSavedMessages()
+      .filter(item => item.sessionKey === sessionKey)
+      .map(item => item.messageId)
+  );
+}
+
+/**
+ * Star or unstar a message; returns whether it is starred afterwards
+ */
+export function toggleSavedMessage(
+  message: UIMessage,
+  text: string,
+  session: { key: string; title: string },
+  messageIndex: number,
+): boolean {
+  const items = StorageHelpers.getSavedMessages();
+  const id = getSavedId(session.key, message.id);
+
+  if (items.some(item => item.id === id)) {
+    StorageHelpers.setSavedMessages(items.filter(item => item.id !== id));
+    return false;
+  }
+
+  const saved: SavedMessage = {
+    id,
+    sessionKey: session.key,
+    sessionTitle: session.title,
+    messageId: message.id,
+    messageIndex,
+    role: message.role,
+    text,
+    tags: [],
+    timestamp: message.timestamp,
+    savedAt: Date.now(),
+  };
+  StorageHelpers.setSavedMessages([saved, ...items]);
+  return true;
+}
+
+/**
+ * Tags from comma or space separated input ("#" optional, lowercased, unique)
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[,\s]+/)
+    .map(tag => tag.replace(/^#+/, '').trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+/**
+ * All tags in use, most used first
+ */
+export function getSavedTags(items: SavedMessage[]): string[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const tag of item.tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+}
+
+/**
+ * Items matching a search query (text, session title or tags) and an optional tag
+ */
+export function filterSavedMessages(items: SavedMessage[], query: string, tag: string | null): SavedMessage[] {
+  const normalizedQuery = query.trim().toLowerCase();
+  return items.filter(item => {
+    if (tag && !item.tags.includes(tag)) return false;
+    if (!normalizedQuery) return true;
+    return (
+      item.text.toLowerCase().includes(normalizedQuery) ||
+      item.sessionTitle.toLowerCase().includes(normalizedQuery) ||
+      item.tags.some(t => t.includes(normalizedQuery.replace(/^#/, '')))
+    );
+  });
+}
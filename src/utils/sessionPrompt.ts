@@ -0,0 +1,45 @@
+/**
+ * Session prompt utilities
+ *
+ * The first prompt sent to a branched session carries its seed transcript,
+ * and the first prompt after choosing a persona carries its instructions.
+ * Once sent, the session is marked primed so later prompts go out as-is.
+ */
+
+import { StorageHelpers } from '../stores/storage';
+import { buildBranchPrompt } from './branches';
+import { buildPersonaPrompt, getSessionPersona } from './personas';
+
+function prepareBranchPrompt(sessionKey: string, text: string): string {
+  const branch = StorageHelpers.getSessionBranch(sessionKey);
+  if (!branch || branch.primed) return text;
+  return buildBranchPrompt(branch.seed, text);
+}
+
+function markBranchPrimed(sessionKey: string) {
+  const branch = StorageHelpers.getSessionBranch(sessionKey);
+  if (branch && !branch.primed) {
+    StorageHelpers.setSessionBranch(sessionKey, { ...branch, primed: true });
+  }
+}
+
+/**
+ * Prompt to send for a session, with any pending branch or persona context
+ */
+export function prepareSessionPrompt(sessionKey: string, text: string): string {
+  const prompt = prepareBranchPrompt(sessionKey, text);
+  const selected = StorageHelpers.getSessionPersona(sessionKey);
+  if (!selected || selected.primed) return prompt;
+  return buildPersonaPrompt(getSessionPersona(sessionKey), prompt);
+}
+
+/**
+ * Record that a session's context went out with a sent prompt
+ */
+export function markSessionPrimed(sessionKey: string): void {
+  markBranchPrimed(sessionKey);
+  const selected = StorageHelpers.getSessionPersona(sessionKey);
+  if (selected && !selected.primed) {
+    StorageHelpers.setSessionPersona(sessionKey, { ...selected, primed: true });
+  }
+}
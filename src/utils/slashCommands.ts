@@ -0,0 +1,152 @@
+/**
+ * Slash commands for the chat composer
+ *
+ * Commands are kept in a registry: a call to registerSlashCommand() is all a
+ * new command needs to show up in the autocomplete popover and run on send.
+ * Input starting with an unknown command is sent to the gateway unchanged.
+ */
+
+import type { ExportFormat } from '../types';
+
+// Actions of the chat screen available to commands
+export interface SlashCommandContext {
+  newSession: () => void;
+  clear: () => void;
+  exportConversation: (format?: ExportFormat) => void;
+  openModelPicker: () => void;
+  selectModel: (query: string) => boolean;
+  openPersonaPicker: () => void;
+  selectPersona: (query: string) => boolean;
+  openSearch: (query?: string) => void;
+  openSaved: () => void;
+  toggleSpeech: () => void;
+  notify: (title: string, message: string) => void;
+}
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  // Argument hint shown in the popover (e.g. "md | json | txt")
+  args?: string;
+  run: (context: SlashCommandContext, args: string) => void | Promise<void>;
+}
+
+const registry = new Map<string, SlashCommand>();
+
+/**
+ * Add a command (replaces an existing command with the same name)
+ */
+export function registerSlashCommand(command: SlashCommand): void {
+  registry.set(command.name.toLowerCase(), command);
+}
+
+/**
+ * All registered commands, sorted by name
+ */
+export function getSlashCommands(): SlashCommand[] {
+  return Array.from(registry.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Commands matching the composer input while the command name is being typed
+ */
+export function matchSlashCommands(input: string): SlashCommand[] {
+  const match = /^\/(\S*)$/.exec(input);
+  if (!match) return [];
+  const prefix = match[1].toLowerCase();
+  return getSlashCommands().filter(c => c.name.startsWith(prefix));
+}
+
+/**
+ * Split composer input into a registered command and its arguments
+ */
+export function parseSlashCommand(input: string): { command: SlashCommand; args: string } | null {
+  const match = /^\/(\S+)\s*([\s\S]*)$/.exec(input.trim());
+  if (!match) return null;
+  const command = registry.get(match[1].toLowerCase());
+  return command ? { command, args: match[2].trim() } : null;
+}
+
+// Export format aliases accepted by /export
+const EXPORT_FORMATS: Record<string, ExportFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  json: 'json',
+  txt: 'text',
+  text: 'text',
+};
+
+registerSlashCommand({
+  name: 'new',
+  description: 'Start a new chat',
+  run: (ctx) => ctx.newSession(),
+});
+
+registerSlashCommand({
+  name: 'clear',
+  description: 'Clear messages on screen',
+  run: (ctx) => ctx.clear(),
+});
+
+registerSlashCommand({
+  name: 'export',
+  description: 'Export this conversation',
+  args: 'md | json | txt',
+  run: (ctx, args) => {
+    if (!args) {
+      ctx.exportConversation();
+      return;
+    }
+    const format = EXPORT_FORMATS[args.toLowerCase()];
+    if (!format) {
+      ctx.notify('Unknown Format', `Use one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+      return;
+    }
+    ctx.exportConversation(format);
+  },
+});
+
+registerSlashCommand({
+  name: 'model',
+  description: 'Choose the model for this chat',
+  args: 'name',
+  run: (ctx, args) => {
+    if (!args) {
+      ctx.openModelPicker();
+    } else if (!ctx.selectModel(args)) {
+      ctx.notify('Model Not Found', `No model matches "${args}".`);
+    }
+  },
+});
+
+registerSlashCommand({
+  name: 'persona',
+  description: 'Choose the persona for this chat',
+  args: 'name',
+  run: (ctx, args) => {
+    if (!args) {
+      ctx.openPersonaPicker();
+    } else if (!ctx.selectPersona(args)) {
+      ctx.notify('Persona Not Found', `No persona matches "${args}".`);
+    }
+  },
+});
+
+registerSlashCommand({
+  name: 'search',
+  description: 'Search all conversations',
+  args: 'query',
+  run: (ctx, args) => ctx.openSearch(args || undefined),
+});
+
+registerSlashCommand({
+  name: 'saved',
+  description: 'Show starred messages',
+  run: (ctx) => ctx.openSaved(),
+});
+
+registerSlashCommand({
+  name: 'tts',
+  description: 'Read the last reply aloud (or stop)',
+  run: (ctx) => ctx.toggleSpeech(),
+});
@@ -0,0 +1,140 @@
+/**
+ * Snippet library utilities
+ *
+ * Snippets are reusable prompts with variables:
+ * - {{clipboard}} - current clipboard text
+ * - {{date}} - today's date
+ * - {{time}} - current time
+ * - {{selection}} - text selected in the composer
+ *
+ * The library can be exported to and imported from a JSON file.
+ */
+
+import * as Clipboard from 'expo-clipboard';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { StorageHelpers } from '../stores/storage';
+import type { Snippet } from '../types';
+
+export const SNIPPET_VARIABLES = ['clipboard', 'date', 'time', 'selection'] as const;
+
+// Library shown until the user edits it
+export const DEFAULT_SNIPPETS: Snippet[] = [
+  {
+    id: 'default-review-diff',
+    title: 'Review this diff',
+    body: 'Please review this diff. Point out bugs, risky changes and missing tests:\n\n{{clipboard}}',
+    createdAt: 0,
+  },
+  {
+    id: 'default-summarize',
+    title: 'Summarize this thread',
+    body: 'Summarize this thread in a few bullet points, with decisions and open questions at the end:\n\n{{clipboard}}',
+    createdAt: 0,
+  },
+  {
+    id: 'default-draft-reply',
+    title: 'Draft a reply',
+    body: 'Draft a short, friendly reply to this message:\n\n{{selection}}',
+    createdAt: 0,
+  },
+  {
+    id: 'default-standup',
+    title: 'Daily standup',
+    body: 'Help me write my standup update for {{date}}. Yesterday: \nToday: \nBlockers: ',
+    createdAt: 0,
+  },
+];
+
+/**
+ * Snippets of the library (the defaults until it has been changed)
+ */
+export function loadSnippets(): Snippet[] {
+  return StorageHelpers.getSnippets() ?? DEFAULT_SNIPPETS;
+}
+
+/**
+ * Fill in the variables of a snippet; unknown variables are left as-is
+ */
+export async function expandSnippet(body: string, selection = ''): Promise<string> {
+  const needsClipboard = body.includes('{{clipboard}}');
+  const clipboard = needsClipboard ? await Clipboard.getStringAsync().catch(() => '') : '';
+  const now = new Date();
+
+  const values: Record<string, string> = {
+    clipboard,
+    date: now.toLocaleDateString(),
+    time: now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+    selection,
+  };
+
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+// Keep only well-formed snippets from imported JSON
+function parseSnippets(json: string): Snippet[] {
+  const data = JSON.parse(json);
+  const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.snippets) ? data.snippets : [];
+
+  return items
+    .filter((item): item is { id?: unknown; title: string; body: string; createdAt?: unknown } =>
+      typeof item === 'object' && item !== null &&
+      typeof (item as { title?: unknown }).title === 'string' &&
+      typeof (item as { body?: unknown }).body === 'string'
+    )
+    .map((item, i) => ({
+      id: typeof item.id === 'string' ? item.id : `snippet-${Date.now().toString(36)}-${i}`,
+      title: item.title,
+      body: item.body,
+      createdAt: typeof item.createdAt === 'number' ? item.createdAt : Date.now(),
+    }));
+}
+
+/**
+ * Share the library as a JSON file
+ */
+export async function exportSnippets(snippets: Snippet[]): Promise<void> {
+  const isAvailable = await Sharing.isAvailableAsync();
+  if (!isAvailable) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const file = new File(Paths.cache, `camiapp_snippets_${new Date().toISOString().slice(0, 10)}.json`);
+  file.write(JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), snippets }, null, 2));
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'application/json',
+    dialogTitle: 'Export snippets',
+  });
+
+  try {
+    file.delete();
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
+/**
+ * Pick a JSON file and merge its snippets into the library.
+ * Snippets with the same id are replaced. Returns the merged library.
+ */
+export async function importSnippets(current: Snippet[]): Promise<{ snippets: Snippet[]; imported: number }> {
+  const picked = await File.pickFileAsync(undefined, 'application/json');
+  const file = Array.isArray(picked) ? picked[0] : picked;
+  if (!file) return { snippets: current, imported: 0 };
+
+  let incoming: Snippet[];
+  try {
+    incoming = parseSnippets(await file.text());
+  } catch {
+    throw new Error('The file is not a valid snippet library');
+  }
+  if (incoming.length === 0) {
+    throw new Error('No snippets found in the file');
+  }
+
+  const incomingIds = new Set(incoming.map(s => s.id));
+  const snippets = [...current.filter(s => !incomingIds.has(s.id)), ...incoming];
+  StorageHelpers.setSnippets(snippets);
+  return { snippets, imported: incoming.length };
+}
@@ -0,0 +1,436 @@
+/**
+ * Lightweight syntax highlighter for code blocks
+ *
+ * Splits code into colored tokens with per-language regex rules.
+ * Supported: TypeScript/JavaScript, Python, Bash, JSON, YAML, diff, SQL, Go, Rust.
+ * Unknown languages (and very long blocks) are returned as plain text.
+ */
+
+export type TokenType =
+  | 'plain'
+  | 'keyword'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'function'
+  | 'type'
+  | 'operator'
+  | 'punctuation'
+  | 'property'
+  | 'variable'
+  | 'inserted'
+  | 'deleted'
+  | 'meta';
+
+export interface HighlightToken {
+  text: string;
+  type: TokenType;
+}
+
+interface Rule {
+  type: TokenType;
+  pattern: RegExp;
+}
+
+interface LanguageDef {
+  label: string;
+  extension: string;
+  rules: Rule[];
+  keywords?: Set<string>;
+  types?: Set<string>;
+  builtins?: Set<string>;
+  // Identifiers starting with an uppercase letter are types (classes, structs)
+  capitalizedTypes?: boolean;
+  // Keywords match regardless of case (SQL)
+  caseInsensitive?: boolean;
+}
+
+// Longer blocks are shown unhighlighted to keep rendering fast
+const MAX_HIGHLIGHT_LENGTH = 20000;
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+
+function rule(type: TokenType, source: string, flags = ''): Rule {
+  return { type, pattern: new RegExp(source, `y${flags}`) };
+}
+
+function words(list: string): Set<string> {
+  return new Set(list.split(/\s+/).filter(Boolean));
+}
+
+// Shared rules
+const WHITESPACE = rule('plain', '\\s+');
+const LINE_COMMENT = rule('comment', '\\/\\/[^\\n]*');
+const BLOCK_COMMENT = rule('comment', '\\/\\*[\\s\\S]*?(?:\\*\\/|$)');
+const HASH_COMMENT = rule('comment', '#[^\\n]*');
+const DOUBLE_STRING = rule('string', '"(?:[^"\\\\\\n]|\\\\.)*"?');
+const SINGLE_STRING = rule('string', "'(?:[^'\\\\\\n]|\\\\.)*'?");
+const NUMBER = rule('number', '(?:0[xX][\\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\\d[\\d_]*(?:\\.\\d[\\d_]*)?(?:[eE][+-]?\\d+)?)[a-zA-Z\\d_]*');
+const OPERATOR = rule('operator', '[+\\-*/%=&|^!<>?:~]+');
+const PUNCTUATION = rule('punctuation', '[{}()[\\];,.@]');
+
+const TYPESCRIPT: LanguageDef = {
+  label: 'TypeScript',
+  extension: 'ts',
+  rules: [
+    WHITESPACE,
+    LINE_COMMENT,
+    BLOCK_COMMENT,
+    rule('string', '`(?:[^`\\\\]|\\\\[\\s\\S])*`?'),
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    NUMBER,
+    rule('meta', '@[A-Za-z_]\\w*'),
+    OPERATOR,
+    PUNCTUATION,
+  ],
+  keywords: words(`
+    abstract as async await break case catch class const continue debugger declare default delete do else enum
+    export extends false finally for from function get if implements import in instanceof interface keyof let
+    namespace new null of private protected public readonly return satisfies set static super switch this throw
+    true try type typeof undefined var void while with yield
+  `),
+  types: words('string number boolean any unknown never object bigint symbol'),
+  builtins: words('console require setTimeout setInterval clearTimeout clearInterval fetch parseInt parseFloat'),
+  capitalizedTypes: true,
+};
+
+const JAVASCRIPT: LanguageDef = { ...TYPESCRIPT, label: 'JavaScript', extension: 'js' };
+
+const PYTHON: LanguageDef = {
+  label: 'Python',
+  extension: 'py',
+  rules: [
+    WHITESPACE,
+    HASH_COMMENT,
+    rule('string', '[rRbBuUfF]{0,2}"""[\\s\\S]*?(?:"""|$)'),
+    rule('string', "[rRbBuUfF]{0,2}'''[\\s\\S]*?(?:'''|$)"),
+    rule('string', '[rRbBuUfF]{1,2}(?:"(?:[^"\\\\\\n]|\\\\.)*"?|\'(?:[^\'\\\\\\n]|\\\\.)*\'?)'),
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    NUMBER,
+    rule('meta', '@[A-Za-z_][\\w.]*'),
+    OPERATOR,
+    PUNCTUATION,
+  ],
+  keywords: words(`
+    and as assert async await break case class continue def del elif else except False finally for from global
+    if import in is lambda match None nonlocal not or pass raise return True try while with yield self cls
+  `),
+  builtins: words(`
+    print len range enumerate zip map filter sorted reversed sum min max abs open isinstance issubclass
+    getattr setattr hasattr super iter next any all round repr format input
+  `),
+  types: words('str int float bool list dict set tuple bytes object type complex frozenset Exception'),
+  capitalizedTypes: true,
+};
+
+const BASH: LanguageDef = {
+  label: 'Bash',
+  extension: 'sh',
+  rules: [
+    WHITESPACE,
+    rule('variable', '\\$(?:\\{[^}\\n]*\\}?|\\(|[A-Za-z_]\\w*|[#?@$!*0-9-])'),
+    HASH_COMMENT,
+    DOUBLE_STRING,
+    rule('string', "'[^']*'?"),
+    rule('property', '--?[A-Za-z][\\w-]*'),
+    rule('number', '\\d+(?![\\w.-])'),
+    rule('operator', '&&|\\|\\||[|&;<>]=?|='),
+    rule('punctuation', '[{}()[\\]]'),
+    rule('plain', '[./~][\\w./:@%+~-]*'),
+  ],
+  keywords: words(`
+    if then else elif fi for while until do done case esac in function return local export select break
+    continue readonly declare unset shift exit
+  `),
+  builtins: words(`
+    echo printf cd ls cat grep sed awk find xargs sudo git npm npx yarn pnpm node python pip curl wget chmod
+    chown mkdir rm cp mv touch source eval exec test kill ps docker kubectl make tar ssh scp
+  `),
+};
+
+const JSON_LANGUAGE: LanguageDef = {
+  label: 'JSON',
+  extension: 'json',
+  rules: [
+    WHITESPACE,
+    rule('property', '"(?:[^"\\\\\\n]|\\\\.)*"(?=\\s*:)'),
+    DOUBLE_STRING,
+    rule('number', '-?\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?'),
+    rule('keyword', '(?:true|false|null)\\b'),
+    rule('punctuation', '[{}[\\],:]'),
+  ],
+};
+
+const YAML: LanguageDef = {
+  label: 'YAML',
+  extension: 'yaml',
+  rules: [
+    WHITESPACE,
+    rule('comment', '#[^\\n]*'),
+    rule('meta', '^(?:---|\\.\\.\\.)(?=\\s|$)', 'm'),
+    rule('property', '[A-Za-z_][\\w.\\- ]*?(?=\\s*:(?:\\s|$))', 'm'),
+    DOUBLE_STRING,
+    SINGLE_STRING,
+    rule('variable', '[&*][\\w-]+'),
+    rule('keyword', '(?:true|false|yes|no|on|off|null|~)(?=\\s|$|,|\\])', 'im'),
+    rule('number', '-?\\d+(?:\\.\\d+)?(?=\\s|$|,|\\])', 'm'),
+    rule('meta', '![\\w!]*'),
+    rule('punctuation', '[:\\-|>{}[\\],?]'),
+    rule('plain', '[^\\s#:,[\\]{}]+'),
+  ],
+};
+
+const DIFF: LanguageDef = {
+  label: 'Diff',
+  extension: 'diff',
+  rules: [
+    rule('meta', '^(?:diff |index |\\+\\+\\+ |--- |@@)[^\\n]*', 'm'),
+    rule('inserted', '^[+>][^\\n]*', 'm'),
+    rule('deleted', '^[-<][^\\n]*', 'm'),
+    rule('plain', '[^\\n]*\\n?'),
+  ],
+};
+
+const SQL: LanguageDef = {
+  label: 'SQL',
+  extension: 'sql',
+  rules: [
+    WHITESPACE,
+    rule('comment', '--[^\\n]*'),
+    BLOCK_COMMENT,
+    rule('string', "'(?:[^']|'')*'?"),
+    rule('property', '"[^"\\n]*"?|`[^`\\n]*`?'),
+    NUMBER,
+    rule('variable', '[:@$]\\w+'),
+    OPERATOR,
+    PUNCTUATION,
+  ],
+  keywords: words(`
+    select from where insert into values update set delete create table drop alter add column join left right
+    inner outer full cross on as and or not null is in exists between like ilike group by order having limit
+    offset union all distinct case when then else end primary key foreign references index view default begin
+    commit rollback transaction returning with asc desc if replace unique constraint check cascade true false
+  `),
+  builtins: words('count sum avg min max coalesce now lower upper length substring cast date concat round'),
+  types: words(`
+    int integer bigint smallint serial bigserial decimal numeric real float double varchar char text boolean
+    bool date time timestamp timestamptz json jsonb uuid blob
+  `),
+  caseInsensitive: true,
+};
+
+const GO: LanguageDef = {
+  label: 'Go',
+  extension: 'go',
+  rules: [
+    WHITESPACE,
+    LINE_COMMENT,
+    BLOCK_COMMENT,
+    DOUBLE_STRING,
+    rule('string', '`[^`]*`?'),
+    rule('string', "'(?:[^'\\\\\\n]|\\\\.)*'"),
+    NUMBER,
+    rule('operator', ':=|<-|[+\\-*/%=&|^!<>]+'),
+    PUNCTUATION,
+  ],
+  keywords: words(`
+    break case chan const continue default defer else fallthrough for func go goto if import interface map
+    package range return select struct switch type var true false nil iota
+  `),
+  types: words(`
+    bool byte complex64 complex128 error float32 float64 int int8 int16 int32 int64 rune string uint uint8
+    uint16 uint32 uint64 uintptr any
+  `),
+  builtins: words('append cap close copy delete len make new panic print println recover'),
+};
+
+const RUST: LanguageDef = {
+  label: 'Rust',
+  extension: 'rs',
+  rules: [
+    WHITESPACE,
+    LINE_COMMENT,
+    BLOCK_COMMENT,
+    rule('meta', '#!?\\[[^\\]\\n]*\\]?'),
+    rule('string', 'b?r(#*)"[\\s\\S]*?(?:"\\1|$)'),
+    rule('string', 'b?"(?:[^"\\\\]|\\\\[\\s\\S])*"?'),
+    rule('string', "b?'(?:[^'\\\\\\n]|\\\\.[^'\\n]*)'"),
+    rule('variable', "'[A-Za-z_]\\w*"),
+    rule('function', '[A-Za-z_]\\w*!'),
+    NUMBER,
+    OPERATOR,
+    PUNCTUATION,
+  ],
+  keywords: words(`
+    as async await break const continue crate dyn else enum extern false fn for if impl in let loop match mod
+    move mut pub ref return self Self static struct super trait true type unsafe use where while
+  `),
+  types: words('i8 i16 i32 i64 i128 isize u8 u16 u32 u64 u128 usize f32 f64 bool char str'),
+  capitalizedTypes: true,
+};
+
+const LANGUAGES: Record<string, LanguageDef> = {
+  typescript: TYPESCRIPT,
+  javascript: JAVASCRIPT,
+  python: PYTHON,
+  bash: BASH,
+  json: JSON_LANGUAGE,
+  yaml: YAML,
+  diff: DIFF,
+  sql: SQL,
+  go: GO,
+  rust: RUST,
+};
+
+const ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  node: 'javascript',
+  py: 'python',
+  python3: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  jsonc: 'json',
+  json5: 'json',
+  yml: 'yaml',
+  patch: 'diff',
+  postgres: 'sql',
+  postgresql: 'sql',
+  mysql: 'sql',
+  sqlite: 'sql',
+  golang: 'go',
+  rs: 'rust',
+};
+
+/**
+ * Canonical name of a supported language, or null
+ */
+export function normalizeLanguage(language?: string): string | null {
+  const name = language?.trim().toLowerCase().split(/\s+/)[0];
+  if (!name) return null;
+  const canonical = ALIASES[name] ?? name;
+  return LANGUAGES[canonical] ? canonical : null;
+}
+
+/**
+ * Label shown in the code block header
+ */
+export function getLanguageLabel(language?: string): string {
+  const canonical = normalizeLanguage(language);
+  if (canonical) return LANGUAGES[canonical].label;
+  return language?.trim().split(/\s+/)[0] || 'Code';
+}
+
+/**
+ * File extension used when saving a code block
+ */
+export function getLanguageExtension(language?: string): string {
+  const canonical = normalizeLanguage(language);
+  if (canonical) return LANGUAGES[canonical].extension;
+  const name = language?.trim().toLowerCase().split(/\s+/)[0];
+  return name && /^[a-z0-9]{1,8}$/.test(name) ? name : 'txt';
+}
+
+// Token type of an identifier
+function classifyIdentifier(def: LanguageDef, word: string, next: string): TokenType {
+  const key = def.caseInsensitive ? word.toLowerCase() : word;
+  if (def.keywords?.has(key)) return 'keyword';
+  if (def.types?.has(key)) return 'type';
+  if (def.builtins?.has(key)) return 'function';
+  if (next === '(') return 'function';
+  if (def.capitalizedTypes && /^[A-Z]/.test(word)) return 'type';
+  return 'plain';
+}
+
+/**
+ * Split code into highlighted tokens (adjacent tokens of the same type are merged)
+ */
+export function highlightCode(code: string, language?: string): HighlightToken[] {
+  const canonical = normalizeLanguage(language);
+  if (!canonical || code.length > MAX_HIGHLIGHT_LENGTH) {
+    return [{ text: code, type: 'plain' }];
+  }
+
+  const def = LANGUAGES[canonical];
+  const tokens: HighlightToken[] = [];
+  const push = (text: string, type: TokenType) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ text, type });
+    }
+  };
+
+  let pos = 0;
+  scan: while (pos < code.length) {
+    for (const { type, pattern } of def.rules) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        push(match[0], type);
+        pos += match[0].length;
+        continue scan;
+      }
+    }
+
+    IDENTIFIER.lastIndex = pos;
+    const identifier = IDENTIFIER.exec(code);
+    if (identifier) {
+      const word = identifier[0];
+      push(word, classifyIdentifier(def, word, code[pos + word.length] ?? ''));
+      pos += word.length;
+      continue;
+    }
+
+    push(code[pos], 'plain');
+    pos += 1;
+  }
+
+  return tokens;
+}
+
+// Token colors for light and dark themes
+export const SYNTAX_COLORS: Record<'light' | 'dark', Record<TokenType, string>> = {
+  light: {
+    plain: '#24292f',
+    keyword: '#cf222e',
+    string: '#0a3069',
+    number: '#0550ae',
+    comment: '#6e7781',
+    function: '#8250df',
+    type: '#953800',
+    operator: '#24292f',
+    punctuation: '#57606a',
+    property: '#0550ae',
+    variable: '#953800',
+    inserted: '#116329',
+    deleted: '#82071e',
+    meta: '#8250df',
+  },
+  dark: {
+    plain: '#d4d4d4',
+    keyword: '#569cd6',
+    string: '#ce9178',
+    number: '#b5cea8',
+    comment: '#6a9955',
+    function: '#dcdcaa',
+    type: '#4ec9b0',
+    operator: '#d4d4d4',
+    punctuation: '#a0a0a0',
+    property: '#9cdcfe',
+    variable: '#9cdcfe',
+    inserted: '#73c991',
+    deleted: '#f48771',
+    meta: '#c586c0',
+  },
+};
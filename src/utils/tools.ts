@@ -0,0 +1,147 @@
+/**
+ * Tool call helpers
+ *
+ * The agent's tool invocations arrive as tool_use blocks; their output as
+ * tool_result blocks, either in the same message or in a later one.
+ * These helpers pair them up for display and export.
+ */
+
+import type { UIMessage, ToolUseContent, ToolResultContent } from '../types';
+
+export type ToolCallStatus = 'running' | 'success' | 'error' | 'unknown';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: string;
+  status: ToolCallStatus;
+  output?: string;
+}
+
+// Tool results and called tool ids across a conversation
+export interface ToolResultIndex {
+  results: Map<string, ToolResultContent>;
+  calledIds: Set<string>;
+}
+
+// Output characters shown before truncating
+export const TOOL_OUTPUT_LIMIT = 2000;
+
+function isToolUse(block: { type: string }): block is ToolUseContent {
+  return block.type === 'tool_use';
+}
+
+function isToolResult(block: { type: string }): block is ToolResultContent {
+  return block.type === 'tool_result';
+}
+
+/**
+ * Arguments of a tool call as readable text
+ */
+export function formatToolArgs(input: unknown): string {
+  if (input === undefined || input === null) return '';
+  if (typeof input === 'string') return input;
+  try {
+    return JSON.stringify(input, null, 2);
+  } catch {
+    return String(input);
+  }
+}
+
+/**
+ * Text output of a tool result (images are replaced by a placeholder)
+ */
+export function getToolResultText(result: ToolResultContent): string {
+  if (!result.content) return '';
+  if (typeof result.content === 'string') return result.content;
+  return result.content
+    .map(block => (block.type === 'text' ? block.text : '[Image]'))
+    .join('\n');
+}
+
+/**
+ * Shorten long output, noting how much was left out
+ */
+export function truncateOutput(text: string, limit = TOOL_OUTPUT_LIMIT): string {
+  if (text.length <= limit) return text;
+  return `${text.slice(0, limit)}\n… (${text.length - limit} more characters)`;
+}
+
+/**
+ * Index tool results and invoked tool ids of all messages
+ */
+export function indexToolResults(messages: UIMessage[]): ToolResultIndex {
+  const results = new Map<string, ToolResultContent>();
+  const calledIds = new Set<string>();
+
+  for (const message of messages) {
+    for (const block of message.content) {
+      if (isToolUse(block)) {
+        calledIds.add(block.id);
+      } else if (isToolResult(block)) {
+        results.set(block.tool_use_id, block);
+      }
+    }
+  }
+  return { results, calledIds };
+}
+
+/**
+ * Whether two indexes hold the same results and calls (keeps memoized bubbles stable)
+ */
+export function isSameToolResultIndex(a: ToolResultIndex, b: ToolResultIndex): boolean {
+  if (a.results.size !== b.results.size || a.calledIds.size !== b.calledIds.size) return false;
+  for (const [id, result] of a.results) {
+    if (b.results.get(id) !== result) return false;
+  }
+  for (const id of a.calledIds) {
+    if (!b.calledIds.has(id)) return false;
+  }
+  return true;
+}
+
+/**
+ * Tool calls of a message, paired with their results.
+ * Results of calls made in another message are left to that message;
+ * results without any known call are listed on their own.
+ */
+export function getToolCalls(
+  content: UIMessage['content'],
+  index?: ToolResultIndex,
+  isStreaming = false,
+): ToolCall[] {
+  const localResults = new Map<string, ToolResultContent>();
+  const localIds = new Set<string>();
+
+  for (const block of content) {
+    if (isToolResult(block)) localResults.set(block.tool_use_id, block);
+    if (isToolUse(block)) localIds.add(block.id);
+  }
+
+  const calls: ToolCall[] = [];
+  for (const block of content) {
+    if (isToolUse(block)) {
+      const result = localResults.get(block.id) ?? index?.results.get(block.id);
+      const status: ToolCallStatus = result
+        ? (result.is_error ? 'error' : 'success')
+        : (isStreaming ? 'running' : 'unknown');
+      calls.push({
+        id: block.id,
+        name: block.name,
+        args: formatToolArgs(block.input),
+        status,
+        output: result ? getToolResultText(result) : undefined,
+      });
+    } else if (isToolResult(block)) {
+      if (localIds.has(block.tool_use_id) || index?.calledIds.has(block.tool_use_id)) continue;
+      calls.push({
+        id: block.tool_use_id,
+        name: 'Tool result',
+        args: '',
+        status: block.is_error ? 'error' : 'success',
+        output: getToolResultText(block),
+      });
+    }
+  }
+  return calls;
+}
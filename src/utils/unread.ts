@@ -0,0 +1,91 @@
+/**
+ * Unread counts across sessions
+ *
+ * The gateway's session list carries messageCount and updatedAt. Each session
+ * keeps a read marker with the count seen when it was last read; the unread
+ * count is the difference. When the chat screen marks a session read it stores
+ * the count from the session list it has at that moment.
+ */
+
+import { StorageHelpers } from '../stores/storage';
+import type { ReadMarker, SessionMeta } from '../types';
+
+/**
+ * Unread count of a session and its marker after this fetch
+ */
+function getSessionUnread(session: SessionMeta, marker: ReadMarker | undefined, now: number): { count: number; marker: ReadMarker } {
+  // Never read on this device: start counting from here
+  if (!marker) {
+    return { count: 0, marker: { messageCount: session.messageCount, readAt: session.updatedAt ?? now } };
+  }
+
+  const changedSinceRead = session.updatedAt !== undefined && session.updatedAt > marker.readAt;
+
+  if (marker.messageCount === undefined || session.messageCount === undefined) {
+    if (changedSinceRead) {
+      // Something new arrived, but we can't tell how much
+      return { count: 1, marker };
+    }
+    return { count: 0, marker: { ...marker, messageCount: session.messageCount } };
+  }
+
+  return { count: Math.max(0, session.messageCount - marker.messageCount), marker };
+}
+
+/**
+ * Unread counts of all sessions (the open session counts as read).
+ * Stores the updated read markers.
+ */
+export function refreshUnreadCounts(sessions: SessionMeta[], currentSessionKey: string): Record<string, number> {
+  const markers = StorageHelpers.getReadMarkers();
+  const counts: Record<string, number> = {};
+  const now = Date.now();
+
+  for (const session of sessions) {
+    if (session.key === currentSessionKey) {
+      markers[session.key] = {
+        ...markers[session.key],
+        messageCount: session.messageCount,
+        readAt: Math.max(now, session.updatedAt ?? 0),
+      };
+      continue;
+    }
+
+    const { count, marker } = getSessionUnread(session, markers[session.key], now);
+    markers[session.key] = marker;
+    if (count > 0) counts[session.key] = count;
+  }
+
+  StorageHelpers.setReadMarkers(markers);
+  return counts;
+}
+
+/**
+ * Mark a session read up to a message, with the session's message count known at that point
+ */
+export function markSessionRead(sessionKey: string, lastMessageId: string, messageCount: number | undefined): void {
+  StorageHelpers.setReadMarker(sessionKey, { lastMessageId, messageCount, readAt: Date.now() });
+}
+
+/**
+ * Mark sessions read up to their current metadata
+ */
+export function markSessionsRead(sessions: SessionMeta[]): void {
+  const markers = StorageHelpers.getReadMarkers();
+  const now = Date.now();
+  for (const session of sessions) {
+    markers[session.key] = {
+      ...markers[session.key],
+      messageCount: session.messageCount,
+      readAt: Math.max(now, session.updatedAt ?? 0),
+    };
+  }
+  StorageHelpers.setReadMarkers(markers);
+}
+
+/**
+ * Total unread messages (for the app icon badge)
+ */
+export function getTotalUnread(counts: Record<string, number>): number {
+  return Object.values(counts).reduce((sum, count) => sum + count, 0);
+}
@@ -0,0 +1,55 @@
+/**
+ * Reply version utilities
+ *
+ * "Edit & resend" and "Regenerate" append a new prompt/reply pair to the
+ * session. A VersionGroup ties those pairs together so the message list
+ * only shows the selected pair and the bubble can flip between them.
+ */
+
+import type { UIMessage, VersionGroup } from '../types';
+
+export interface MessageVersionInfo {
+  groupId: string;
+  index: number;
+  count: number;
+}
+
+// Find the group a prompt or reply belongs to
+export function findVersionGroup(groups: VersionGroup[], messageId: string): VersionGroup | undefined {
+  return groups.find(g => g.promptIds.includes(messageId) || g.replyIds.includes(messageId));
+}
+
+// Hide non-selected versions and report version info for the visible ones
+export function applyVersions(
+  messages: UIMessage[],
+  groups: VersionGroup[],
+): { visible: UIMessage[]; versionInfo: Record<string, MessageVersionInfo> } {
+  if (groups.length === 0) {
+    return { visible: messages, versionInfo: {} };
+  }
+
+  const hidden = new Set<string>();
+  const versionInfo: Record<string, MessageVersionInfo> = {};
+
+  for (const group of groups) {
+    const count = group.promptIds.length;
+    if (count < 2) continue;
+    const selected = Math.min(Math.max(group.selected, 0), count - 1);
+
+    for (let i = 0; i < count; i++) {
+      if (i === selected) continue;
+      hidden.add(group.promptIds[i]);
+      const replyId = group.replyIds[i];
+      if (replyId) hidden.add(replyId);
+    }
+
+    // The switcher lives on the reply, or on the prompt while the reply is pending
+    const target = group.replyIds[selected] ?? group.promptIds[selected];
+    versionInfo[target] = { groupId: group.id, index: selected, count };
+  }
+
+  return {
+    visible: messages.filter(m => !hidden.has(m.id)),
+    versionInfo,
+  };
+}